@@ -0,0 +1,138 @@
+import type { BuildContext } from "./types.ts";
+
+import { join, resolve } from "node:path";
+import { createPathsMatcher, getTsconfig } from "get-tsconfig";
+
+const IMPORTS_CONDITIONS = ["import", "node", "default"];
+
+// Placeholder to resolve the base path of `<alias>/*` patterns of tsconfig `paths`
+const PATTERN_PLACEHOLDER = "__obuild_alias__";
+
+/**
+ * Resolve aliases of a package from `compilerOptions.paths` of the nearest `tsconfig.json`
+ * (following `extends`), overridden by the `alias` config option.
+ *
+ * Only exact and `<alias>/*` paths are supported. Relative targets are resolved against
+ * the package directory.
+ */
+export function resolveAliases(
+  pkgDir: string,
+  alias: Record<string, string> = {},
+): Record<string, string> {
+  const aliases: Record<string, string> = {};
+
+  const tsconfig = getTsconfig(pkgDir);
+  const matchPaths = tsconfig && createPathsMatcher(tsconfig);
+  if (matchPaths) {
+    for (const key of Object.keys(tsconfig.config.compilerOptions!.paths!)) {
+      if (!key.includes("*")) {
+        const [target] = matchPaths(key);
+        if (target) {
+          aliases[key] = target;
+        }
+      } else if (key.endsWith("/*") && key.indexOf("*") === key.length - 1) {
+        const [target] = matchPaths(key.slice(0, -1) + PATTERN_PLACEHOLDER);
+        if (target?.endsWith(`/${PATTERN_PLACEHOLDER}`)) {
+          aliases[key.slice(0, -2)] = target.slice(
+            0,
+            -PATTERN_PLACEHOLDER.length - 1,
+          );
+        }
+      }
+    }
+  }
+
+  for (const [find, replacement] of Object.entries(alias)) {
+    aliases[find] = replacement.startsWith(".")
+      ? resolve(pkgDir, replacement)
+      : replacement;
+  }
+
+  return aliases;
+}
+
+/**
+ * Apply the longest matching alias (exact or `<alias>/` prefix) to a specifier.
+ *
+ * Returns `undefined` if no alias matches.
+ */
+export function applyAlias(
+  aliases: Record<string, string>,
+  id: string,
+): string | undefined {
+  const find = Object.keys(aliases)
+    .sort((a, b) => b.length - a.length)
+    .find((key) => id === key || id.startsWith(`${key}/`));
+  return find === undefined ? undefined : aliases[find] + id.slice(find.length);
+}
+
+/**
+ * Resolve an aliased specifier of package.json `imports` (`#` specifiers) or the
+ * resolved `alias` of the build context to a path.
+ *
+ * Returns `undefined` if the specifier is not aliased.
+ */
+export function resolveAlias(
+  ctx: BuildContext,
+  id: string,
+): string | undefined {
+  if (id.startsWith("#")) {
+    const target = matchPackageImports(ctx.pkg.imports, id);
+    return target ? join(ctx.pkgDir, target) : undefined;
+  }
+  return applyAlias(ctx.alias, id);
+}
+
+/**
+ * Match a `#` specifier against package.json `imports` (exact keys first, then the
+ * longest matching `*` pattern).
+ */
+function matchPackageImports(imports: unknown, id: string): string | undefined {
+  if (!imports || typeof imports !== "object") {
+    return;
+  }
+
+  const exact = resolveImportsTarget((imports as Record<string, unknown>)[id]);
+  if (exact) {
+    return exact;
+  }
+
+  const patterns = Object.keys(imports)
+    .filter((key) => key.includes("*"))
+    .sort((a, b) => b.indexOf("*") - a.indexOf("*"));
+  for (const key of patterns) {
+    const [prefix, suffix] = key.split("*");
+    if (
+      id.length >= key.length - 1 &&
+      id.startsWith(prefix) &&
+      id.endsWith(suffix)
+    ) {
+      const target = resolveImportsTarget(
+        (imports as Record<string, unknown>)[key],
+      );
+      return target?.replaceAll(
+        "*",
+        id.slice(prefix.length, id.length - suffix.length),
+      );
+    }
+  }
+}
+
+function resolveImportsTarget(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return resolveImportsTarget(value[0]);
+  }
+  if (value && typeof value === "object") {
+    for (const condition of IMPORTS_CONDITIONS) {
+      const target = resolveImportsTarget(
+        (value as Record<string, unknown>)[condition],
+      );
+      if (target) {
+        return target;
+      }
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import type { BundleAnalysis } from "./types.ts";
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/**
+ * Write a bundle analysis as JSON and a self-contained HTML treemap (next to the JSON
+ * file, with an `.html` extension) and return both paths.
+ */
+export async function writeAnalysis(
+  path: string,
+  analysis: BundleAnalysis,
+): Promise<[json: string, html: string]> {
+  const htmlPath = path.replace(/\.json$/, "") + ".html";
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(analysis, null, 2) + "\n", "utf8");
+  await writeFile(htmlPath, fmtAnalysisHTML(analysis), "utf8");
+  return [path, htmlPath];
+}
+
+/**
+ * Render a bundle analysis as a treemap (chunks, grouped by package and own code) in a
+ * single HTML file without external resources.
+ */
+export function fmtAnalysisHTML(analysis: BundleAnalysis): string {
+  // Escape `<` to keep `</script>` in module ids from closing the script
+  const data = JSON.stringify(analysis).replaceAll("<", String.raw`\u003C`);
+  return /* html */ `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>obuild bundle analysis</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 12px/1.4 system-ui, sans-serif; color: #1f2328; display: flex; flex-direction: column; height: 100vh; }
+  header { padding: 8px 12px; border-bottom: 1px solid #d0d7de; }
+  header h1 { font-size: 14px; margin: 0; display: inline; }
+  #details { margin-left: 12px; color: #59636e; white-space: pre; }
+  #treemap { position: relative; flex: 1; margin: 8px; }
+  .node { position: absolute; overflow: hidden; border: 1px solid rgba(0, 0, 0, 0.25); }
+  .node > .label { padding: 1px 4px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; pointer-events: none; }
+  .chunk { background: #f6f8fa; }
+  .chunk > .label { font-weight: 600; }
+  .module:hover { filter: brightness(0.9); }
+</style>
+</head>
+<body>
+<header><h1>📊 Bundle analysis</h1><span id="details">Hover a module to see why it is included.</span></header>
+<div id="treemap"></div>
+<script>
+const analysis = ${data};
+
+const HEADER = 16;
+const PADDING = 2;
+
+const fmtSize = (bytes) =>
+  bytes < 1000 ? bytes + " B" : (bytes / 1000).toFixed(2) + " kB";
+
+const hue = (name) => {
+  let hash = 0;
+  for (const char of name) hash = (hash * 31 + char.charCodeAt(0)) % 360;
+  return hash;
+};
+
+// Squarified treemap layout of nodes (sorted by value, largest first) in a rectangle
+function layout(nodes, x, y, w, h) {
+  const total = nodes.reduce((sum, node) => sum + node.value, 0);
+  const scale = (w * h) / total;
+  let i = 0;
+  while (i < nodes.length) {
+    const vertical = w >= h;
+    const side = vertical ? h : w;
+    const row = [];
+    let rowArea = 0;
+    let worst = Infinity;
+    while (i < nodes.length) {
+      const area = nodes[i].value * scale;
+      const areas = [...row.map((r) => r.area), area];
+      const sum = rowArea + area;
+      const ratio = Math.max(
+        (side * side * Math.max(...areas)) / (sum * sum),
+        (sum * sum) / (side * side * Math.min(...areas)),
+      );
+      if (row.length > 0 && ratio > worst) break;
+      worst = ratio;
+      row.push({ node: nodes[i], area });
+      rowArea = sum;
+      i++;
+    }
+    const thickness = rowArea / side;
+    let offset = 0;
+    for (const { node, area } of row) {
+      const length = area / thickness;
+      node.rect = vertical
+        ? [x, y + offset, thickness, length]
+        : [x + offset, y, length, thickness];
+      offset += length;
+    }
+    if (vertical) {
+      x += thickness;
+      w -= thickness;
+    } else {
+      y += thickness;
+      h -= thickness;
+    }
+  }
+}
+
+function render(parent, nodes, width, height, top) {
+  nodes = nodes.filter((node) => node.value > 0).sort((a, b) => b.value - a.value);
+  if (nodes.length === 0 || width <= 0 || height <= 0) return;
+  layout(nodes, PADDING, top + PADDING, width - 2 * PADDING, height - top - 2 * PADDING);
+  for (const node of nodes) {
+    const [x, y, w, h] = node.rect;
+    const el = document.createElement("div");
+    el.className = "node " + node.type;
+    Object.assign(el.style, { left: x + "px", top: y + "px", width: w + "px", height: h + "px" });
+    if (node.color) el.style.background = node.color;
+    const label = document.createElement("div");
+    label.className = "label";
+    label.textContent = node.name + " (" + fmtSize(node.value) + ")";
+    el.append(label);
+    el.title = node.title;
+    if (node.details) {
+      el.addEventListener("mouseenter", () => {
+        document.querySelector("#details").textContent = node.details;
+      });
+    }
+    parent.append(el);
+    if (node.children && h > HEADER * 2) {
+      render(el, node.children, w - 2, h - 2, HEADER);
+    }
+  }
+}
+
+function toTree() {
+  return analysis.chunks.map((chunk) => {
+    const groups = new Map();
+    for (const module of chunk.modules) {
+      const name = module.package || "(own code)";
+      if (!groups.has(name)) groups.set(name, []);
+      groups.get(name).push(module);
+    }
+    const shared = chunk.entries.length > 0 ? "\\nShared by: " + chunk.entries.join(", ") : "";
+    return {
+      type: "chunk",
+      name: chunk.name,
+      value: chunk.modules.reduce((sum, m) => sum + m.size, 0),
+      title: chunk.name + " (" + fmtSize(chunk.size) + ")" + shared,
+      children: [...groups].map(([name, modules]) => ({
+        type: "group",
+        name,
+        value: modules.reduce((sum, m) => sum + m.size, 0),
+        title: name,
+        color: "hsl(" + hue(name) + " 60% 85%)",
+        children: modules.map((module) => ({
+          type: "module",
+          name: module.id.split("/").pop(),
+          value: module.size,
+          title: module.id + " (" + fmtSize(module.size) + ")",
+          details: module.id + " (" + fmtSize(module.size) + ")\\nIncluded by: " + module.importers.join(" → "),
+          color: "hsl(" + hue(name) + " 60% 70%)",
+        })),
+      })),
+    };
+  });
+}
+
+function draw() {
+  const container = document.querySelector("#treemap");
+  container.replaceChildren();
+  render(container, toTree(), container.clientWidth, container.clientHeight, 0);
+}
+
+draw();
+addEventListener("resize", draw);
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,143 @@
+import type {
+  BuildContext,
+  BuildEntryReport,
+  DependencyAuditOptions,
+} from "./types.ts";
+
+import { builtinModules } from "node:module";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import oxcParser from "oxc-parser";
+import { fmtPath, getPackageName } from "./utils.ts";
+
+const SCAN_RE = /\.([cm]?js|d\.[cm]?ts)$/;
+const REQUIRE_RE = /\brequire\(\s*(["'`])([^"'`]+)\1\s*\)/g;
+
+/**
+ * Audit dependencies of the built files against package.json.
+ *
+ * Reports packages inlined into bundles without being listed as intentionally bundled,
+ * imports of undeclared packages and declared `dependencies` that no built file imports.
+ */
+export async function auditDependencies(
+  ctx: BuildContext,
+  entryReports: BuildEntryReport[],
+  options: DependencyAuditOptions = {},
+): Promise<string[]> {
+  const imported = new Map<string, Set<string>>();
+  const inlined = new Map<string, Set<string>>();
+
+  const add = (map: Map<string, Set<string>>, id: string, file: string) => {
+    if (!isBareSpecifier(id)) {
+      return;
+    }
+    const name = getPackageName(id);
+    if (!map.has(name)) {
+      map.set(name, new Set());
+    }
+    map.get(name)!.add(fmtPath(file));
+  };
+
+  for (const entryReport of entryReports) {
+    if (entryReport.type === "bundle") {
+      for (const output of entryReport.outputs) {
+        const file = join(entryReport.outDir, output.name);
+        for (const dep of output.deps) {
+          add(imported, dep, file);
+        }
+        for (const pkg of output.packages) {
+          add(imported, pkg, file);
+          add(inlined, pkg, file);
+        }
+      }
+    } else {
+      for (const file of entryReport.files) {
+        if (SCAN_RE.test(file)) {
+          for (const id of await scanImports(file)) {
+            add(imported, id, file);
+          }
+        }
+      }
+    }
+  }
+
+  const pkg = ctx.pkg as Record<string, Record<string, string> | undefined>;
+  const dependencies = Object.keys(pkg.dependencies || {});
+  const declared = new Set([
+    ...dependencies,
+    ...Object.keys(pkg.peerDependencies || {}),
+    ...Object.keys(pkg.optionalDependencies || {}),
+    ...Object.keys(pkg.devDependencies || {}),
+  ]);
+  const ignored = new Set([ctx.pkg.name, ...(options.ignore || [])]);
+  const bundled = new Set(options.bundled || []);
+
+  const fmtFiles = (files: Set<string>) =>
+    [...files].map((f) => `\`${f}\``).join(", ");
+
+  const issues: string[] = [];
+
+  for (const [name, files] of imported) {
+    if (!declared.has(name) && !ignored.has(name)) {
+      issues.push(
+        `\`${name}\` is imported by ${fmtFiles(files)} but not declared in \`package.json\``,
+      );
+    }
+  }
+
+  for (const [name, files] of inlined) {
+    if (declared.has(name) && !bundled.has(name) && !ignored.has(name)) {
+      issues.push(
+        `\`${name}\` is inlined into ${fmtFiles(files)} (add it to \`dependencies\` or \`audit.bundled\`)`,
+      );
+    }
+  }
+
+  for (const name of dependencies) {
+    if (!imported.has(name) && !ignored.has(name)) {
+      issues.push(
+        `\`${name}\` is listed in \`dependencies\` but not imported by any built file`,
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Collect import specifiers (static, re-exports, literal dynamic imports and `require()`) of a file.
+ */
+async function scanImports(file: string): Promise<string[]> {
+  const code = await readFile(file, "utf8");
+
+  if (file.endsWith(".cjs")) {
+    return [...code.matchAll(REQUIRE_RE)].map((m) => m[2]);
+  }
+
+  const { module } = oxcParser.parseSync(file, code);
+  const ids = [
+    ...module.staticImports.map((i) => i.moduleRequest.value),
+    ...module.staticExports.flatMap((e) =>
+      e.entries.flatMap((entry) =>
+        entry.moduleRequest ? [entry.moduleRequest.value] : [],
+      ),
+    ),
+  ];
+  for (const dynamicImport of module.dynamicImports) {
+    const specifier = code.slice(
+      dynamicImport.moduleRequest.start,
+      dynamicImport.moduleRequest.end,
+    );
+    if (/^(["'`])[^"'`]+\1$/.test(specifier)) {
+      ids.push(specifier.slice(1, -1));
+    }
+  }
+  return ids;
+}
+
+function isBareSpecifier(id: string): boolean {
+  return (
+    !/^[./\\]|^[a-z]+:|^\0|^\[/i.test(id) &&
+    !builtinModules.includes(id.split("/")[0])
+  );
+}
@@ -0,0 +1,81 @@
+import type {
+  BuildConfig,
+  BundleEntry,
+  BundleOutput,
+  SizeBudget,
+} from "./types.ts";
+
+import picomatch from "picomatch";
+import prettyBytes from "pretty-bytes";
+
+export interface BudgetViolation {
+  /** Output file name (or `"total"` for the total dist size). */
+  name: string;
+  metric: keyof SizeBudget | "files";
+  limit: number;
+  actual: number;
+}
+
+const METRIC_LABELS: Record<BudgetViolation["metric"], string> = {
+  size: "size",
+  minSize: "minified size",
+  minGzipSize: "min+gzipped size",
+  sideEffectSize: "side effects size",
+  files: "file count",
+};
+
+/**
+ * Check a bundle output against the entry budget (merged with matching per-file budgets).
+ */
+export function checkBundleBudget(
+  budget: BundleEntry["budget"],
+  output: BundleOutput,
+): BudgetViolation[] {
+  if (!budget) {
+    return [];
+  }
+
+  const { files, ...entryBudget } = budget;
+  const limits: SizeBudget = { ...entryBudget };
+  for (const [pattern, fileBudget] of Object.entries(files || {})) {
+    if (picomatch(pattern)(output.name)) {
+      Object.assign(limits, fileBudget);
+    }
+  }
+
+  const violations: BudgetViolation[] = [];
+  for (const [metric, limit] of Object.entries(limits) as [
+    keyof SizeBudget,
+    number | undefined,
+  ][]) {
+    // Skip metrics that are not measured (side effects of CommonJS outputs)
+    const actual = output[metric];
+    if (limit !== undefined && actual !== undefined && actual > limit) {
+      violations.push({ name: output.name, metric, limit, actual });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Check total dist size and file count against the build budget.
+ */
+export function checkTotalBudget(
+  budget: BuildConfig["budget"],
+  total: { size: number; files: number },
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+  for (const metric of ["size", "files"] as const) {
+    const limit = budget?.[metric];
+    if (limit !== undefined && total[metric] > limit) {
+      violations.push({ name: "total", metric, limit, actual: total[metric] });
+    }
+  }
+  return violations;
+}
+
+export function fmtBudgetViolation(violation: BudgetViolation): string {
+  const fmt = (value: number) =>
+    violation.metric === "files" ? String(value) : prettyBytes(value);
+  return `${violation.name}: ${METRIC_LABELS[violation.metric]} ${fmt(violation.actual)} exceeds budget of ${fmt(violation.limit)}`;
+}
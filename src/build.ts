@@ -1,52 +1,375 @@
 import type {
   BuildContext,
+  BuildComparison,
   BuildConfig,
-  TransformEntry,
+  BuildEntry,
+  BuildEntryReport,
+  BuildEntryResult,
+  BuildReport,
+  BuildResult,
+  BundleAnalysis,
   BundleEntry,
 } from "./types.ts";
 
 import { fileURLToPath } from "node:url";
-import { isAbsolute, join, resolve } from "node:path";
-import { rm } from "node:fs/promises";
-import { consola } from "consola";
+import { availableParallelism } from "node:os";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+import { mkdir, rm, stat, writeFile } from "node:fs/promises";
+import { consola, type ConsolaInstance } from "consola";
 import { colors as c } from "consola/utils";
 import { rolldownBuild } from "./builders/bundle.ts";
 import { transformDir } from "./builders/transform.ts";
-import { fmtPath, analyzeDir } from "./utils.ts";
+import { copyFiles } from "./builders/copy.ts";
+import { inferAndLogEntries } from "./infer.ts";
+import {
+  fmtPath,
+  analyzeDir,
+  createBufferedLogger,
+  mapConcurrent,
+} from "./utils.ts";
+import { validatePackage } from "./validate.ts";
+import { auditDependencies } from "./audit.ts";
+import { applyAlias, resolveAliases } from "./alias.ts";
+import { resolveHooks } from "./plugins.ts";
+import { getDiagnostics, writeDiagnosticSources } from "./diagnostics.ts";
+import { writeAnalysis } from "./analyze.ts";
+import {
+  compareReports,
+  fmtComparison,
+  fmtComparisonMarkdown,
+  readBaselineReport,
+} from "./compare.ts";
+import {
+  checkBundleBudget,
+  checkTotalBudget,
+  fmtBudgetViolation,
+  type BudgetViolation,
+} from "./budget.ts";
 import prettyBytes from "pretty-bytes";
+import { glob, isDynamicPattern } from "tinyglobby";
 
 /**
  * Build dist/ from src/
  */
-export async function build(config: BuildConfig): Promise<void> {
+export async function build(config: BuildConfig): Promise<BuildResult> {
   const start = Date.now();
 
-  const pkgDir = normalizePath(config.cwd);
-  const pkg = await readJSON(join(pkgDir, "package.json")).catch(() => ({}));
-  const ctx: BuildContext = { pkg, pkgDir };
+  const ctx = await resolveBuildContext(config);
 
   consola.log(
-    `📦 Building \`${ctx.pkg.name || "<no name>"}\` (\`${ctx.pkgDir}\`)`,
+    `📦 Building \`${ctx.pkg.name || "<no name>"}\` (\`${ctx.pkgDir}\`)${ctx.dryRunFiles ? c.yellow(" [dry run]") : ""}`,
   );
 
-  const hooks = config.hooks || {};
+  const hooks = resolveHooks(config);
 
   await hooks.start?.(ctx);
 
-  const entries = (config.entries || []).map((rawEntry) => {
-    let entry: TransformEntry | BundleEntry;
+  const entries = resolveBuildEntries(config, ctx);
+
+  await hooks.entries?.(entries, ctx);
+
+  const compare =
+    typeof config.compare === "string"
+      ? { baseline: config.compare }
+      : config.compare;
+  const baselinePath = compare && resolve(ctx.pkgDir, compare.baseline);
+  // Read the baseline before cleaning, it may live in an output directory
+  const baseline = baselinePath && (await readBaselineReport(baselinePath));
+
+  const outDirs = resolveOutDirs(entries);
+  await cleanOutputs(ctx, config, entries);
+
+  const analysis: BundleAnalysis = { chunks: [] };
 
-    if (typeof rawEntry === "string") {
-      const [input, outDir] = rawEntry.split(":") as [
-        string,
-        string | undefined,
+  const buildEntry = async (
+    entry: BuildEntry,
+    logger?: ConsolaInstance,
+  ): Promise<[BuildEntryReport, BuildEntryResult]> => {
+    await hooks["entry:before"]?.(entry, ctx);
+
+    const entryStart = Date.now();
+    const entryReport = {
+      input: entry.input,
+      outDir: entry.outDir!,
+    };
+    let built: [BuildEntryReport, BuildEntryResult];
+    if (entry.type === "bundle") {
+      const { outputs, files, warnings, chunks } = await rolldownBuild(
+        ctx,
+        entry,
+        hooks,
+        logger,
+      );
+      analysis.chunks.push(...chunks);
+      const duration = Date.now() - entryStart;
+      built = [
+        { ...entryReport, type: "bundle", outputs, duration },
+        {
+          entry,
+          files: await resolveBuildFiles(ctx, files),
+          outputs,
+          warnings,
+          duration,
+        },
+      ];
+    } else if (entry.type === "copy") {
+      const { files } = await copyFiles(ctx, entry, logger);
+      const duration = Date.now() - entryStart;
+      built = [
+        { ...entryReport, type: "copy", files, duration },
+        {
+          entry,
+          files: await resolveBuildFiles(ctx, files),
+          warnings: [],
+          duration,
+        },
       ];
-      entry = input.endsWith("/")
-        ? ({ type: "transform", input, outDir } as TransformEntry)
-        : ({ type: "bundle", input: input.split(","), outDir } as BundleEntry);
     } else {
-      entry = rawEntry;
+      const { files, warnings } = await transformDir(ctx, entry, hooks, logger);
+      const duration = Date.now() - entryStart;
+      built = [
+        { ...entryReport, type: "transform", files, duration },
+        {
+          entry,
+          files: await resolveBuildFiles(ctx, files),
+          warnings,
+          duration,
+        },
+      ];
+    }
+
+    await hooks["entry:after"]?.(built[1], ctx);
+
+    return built;
+  };
+
+  const concurrency = config.concurrency ?? availableParallelism();
+  const built = await mapConcurrent(entries, concurrency, async (entry) => {
+    // Buffer logs of concurrent entries to print them in one piece
+    const logger = concurrency > 1 ? createBufferedLogger() : undefined;
+    try {
+      return await buildEntry(entry, logger);
+    } finally {
+      logger?.flush();
+    }
+  }).catch(async (error) => {
+    const diagnostics = getDiagnostics(error);
+    if (config.dump && diagnostics) {
+      const dumpDir = resolve(ctx.pkgDir, config.dump);
+      const dumped = await writeDiagnosticSources(
+        dumpDir,
+        ctx.pkgDir,
+        diagnostics,
+      );
+      if (dumped.length > 0) {
+        consola.info(
+          `Sources of failed modules written to \`${fmtPath(dumpDir)}\``,
+        );
+      }
+    }
+    throw error;
+  });
+  const entryReports = built.map(([report]) => report);
+  const entryResults = built.map(([, result]) => result);
+
+  const budgetViolations: BudgetViolation[] = [];
+  for (const { entry, outputs } of entryResults) {
+    for (const output of outputs || []) {
+      const budget = (entry as BundleEntry).budget;
+      for (const violation of checkBundleBudget(budget, output)) {
+        budgetViolations.push({
+          ...violation,
+          name: fmtPath(join(entry.outDir!, violation.name)),
+        });
+      }
+    }
+  }
+
+  const warnings: string[] = [];
+
+  await hooks.end?.(ctx);
+
+  if (ctx.dryRunFiles) {
+    consola.log(
+      `\n📝 Files that would be written:\n${entryResults
+        .flatMap((result) => result.files)
+        .map((f) => c.dim(`${fmtPath(f.path)} (${prettyBytes(f.size)})`))
+        .join("\n")}`,
+    );
+  }
+
+  if (config.validate !== false && !ctx.dryRunFiles) {
+    const issues = validatePackage(ctx);
+    if (issues.length > 0) {
+      const message = `Invalid \`package.json\` targets:\n${issues.map((i) => ` - ${i}`).join("\n")}`;
+      if (config.validate !== "warn") {
+        throw new Error(message);
+      }
+      consola.warn(message);
+      warnings.push(...issues);
+    }
+  }
+
+  // Stubs don't contain the actual imports
+  if (
+    config.audit !== false &&
+    !ctx.dryRunFiles &&
+    !entries.some((entry) => entry.stub)
+  ) {
+    const auditOptions = config.audit === true ? {} : config.audit;
+    const issues = await auditDependencies(ctx, entryReports, auditOptions);
+    if (issues.length > 0) {
+      const message = `Dependency audit found issues:\n${issues.map((i) => ` - ${i}`).join("\n")}`;
+      if (auditOptions?.strict) {
+        throw new Error(message);
+      }
+      consola.warn(message);
+      warnings.push(...issues);
+    }
+  }
+
+  const dirSize = ctx.dryRunFiles
+    ? {
+        size: entryResults
+          .flatMap((result) => result.files)
+          .reduce((size, file) => size + file.size, 0),
+        files: ctx.dryRunFiles.size,
+      }
+    : analyzeDir(outDirs);
+  const totalViolations = checkTotalBudget(config.budget, dirSize);
+  const fmtTotal = (metric: "size" | "files", value: string) =>
+    totalViolations.some((v) => v.metric === metric)
+      ? c.red(value)
+      : c.underline(value);
+  consola.log(
+    c.dim(
+      `\nΣ Total dist byte size: ${fmtTotal("size", prettyBytes(dirSize.size))} (${fmtTotal("files", String(dirSize.files))} files)`,
+    ),
+  );
+
+  const report: BuildReport = {
+    entries: entryReports,
+    total: { ...dirSize, duration: Date.now() - start },
+  };
+
+  await hooks["build:report"]?.(report, ctx);
+
+  if (config.report) {
+    const reportPath = resolve(ctx.pkgDir, config.report);
+    if (ctx.dryRunFiles) {
+      consola.log(
+        `\n📝 Build report would be written to \`${fmtPath(reportPath)}\``,
+      );
+    } else {
+      await writeReport(reportPath, ctx, report);
+      consola.log(`\n📝 Build report written to \`${fmtPath(reportPath)}\``);
+    }
+  }
+
+  if (config.analyze) {
+    const analyzePath = resolve(
+      ctx.pkgDir,
+      config.analyze === true ? "analyze/bundle.json" : config.analyze,
+    );
+    if (ctx.dryRunFiles) {
+      consola.log(
+        `\n📊 Bundle analysis would be written to \`${fmtPath(analyzePath)}\``,
+      );
+    } else {
+      analysis.chunks.sort((a, b) => a.name.localeCompare(b.name));
+      const [jsonPath, htmlPath] = await writeAnalysis(analyzePath, analysis);
+      consola.log(
+        `\n📊 Bundle analysis written to \`${fmtPath(jsonPath)}\` and \`${fmtPath(htmlPath)}\``,
+      );
+    }
+  }
+
+  let comparison: BuildComparison | undefined;
+  if (baseline) {
+    comparison = compareReports(
+      baselinePath,
+      baseline,
+      relativeReport(ctx, report),
+    );
+    consola.log(`\n${fmtComparison(comparison)}`);
+    if (compare.markdown) {
+      const markdownPath = resolve(ctx.pkgDir, compare.markdown);
+      if (ctx.dryRunFiles) {
+        consola.log(
+          `\n📝 Comparison summary would be written to \`${fmtPath(markdownPath)}\``,
+        );
+      } else {
+        await mkdir(dirname(markdownPath), { recursive: true });
+        await writeFile(
+          markdownPath,
+          fmtComparisonMarkdown(comparison),
+          "utf8",
+        );
+        consola.log(
+          `\n📝 Comparison summary written to \`${fmtPath(markdownPath)}\``,
+        );
+      }
     }
+  }
+
+  budgetViolations.push(...totalViolations);
+  if (budgetViolations.length > 0) {
+    throw new Error(
+      `Size budget exceeded:\n${budgetViolations.map((v) => ` - ${fmtBudgetViolation(v)}`).join("\n")}`,
+    );
+  }
+
+  const duration = Date.now() - start;
+
+  consola.log(
+    `\n✅ obuild ${ctx.dryRunFiles ? "dry run " : ""}finished in ${duration}ms`,
+  );
+
+  return {
+    entries: entryResults,
+    warnings,
+    total: { ...dirSize, duration },
+    comparison,
+  };
+}
+
+export async function resolveBuildContext(
+  config: BuildConfig,
+): Promise<BuildContext> {
+  const pkgDir = normalizePath(config.cwd);
+  const pkg = await readJSON(join(pkgDir, "package.json")).catch(() => ({}));
+  const alias = resolveAliases(pkgDir, config.alias);
+  return {
+    pkg,
+    pkgDir,
+    alias,
+    ...(config.dryRun && { dryRunFiles: new Map() }),
+  };
+}
+
+/**
+ * Normalize raw (string or object) entries with absolute input and output paths.
+ *
+ * Entries are inferred from package.json if none are specified.
+ */
+export function resolveBuildEntries(
+  config: BuildConfig,
+  ctx: BuildContext,
+): BuildEntry[] {
+  const rawEntries =
+    config.entries && config.entries.length > 0
+      ? config.entries
+      : inferAndLogEntries(ctx);
+
+  if (rawEntries.length === 0) {
+    throw new Error(
+      "No build entries specified and none could be inferred from `package.json`.",
+    );
+  }
+
+  return rawEntries.map((rawEntry) => {
+    let entry =
+      typeof rawEntry === "string" ? parseEntryShorthand(rawEntry) : rawEntry;
 
     if (!entry.input) {
       throw new Error(
@@ -54,45 +377,147 @@ export async function build(config: BuildConfig): Promise<void> {
       );
     }
     entry = { ...entry };
-    entry.outDir = normalizePath(entry.outDir || "dist", pkgDir);
+    if (config.define && entry.type !== "copy") {
+      entry.define = { ...config.define, ...entry.define };
+    }
+    entry.outDir = normalizePath(entry.outDir || "dist", ctx.pkgDir);
+    const normalizeInput = (input: string) =>
+      normalizePath(applyAlias(ctx.alias, input) || input, ctx.pkgDir);
     entry.input = Array.isArray(entry.input)
-      ? entry.input.map((p) => normalizePath(p, pkgDir))
-      : normalizePath(entry.input, pkgDir);
+      ? entry.input.map((p) => normalizeInput(p))
+      : normalizeInput(entry.input);
     return entry;
   });
+}
 
-  await hooks.entries?.(entries, ctx);
+/**
+ * Parse a `input[:outDir]` entry shorthand: directories (ending with `/`) are transform
+ * entries, globs (e.g. `src/assets/**`) copy entries and comma separated files bundle entries.
+ */
+export function parseEntryShorthand(rawEntry: string): BuildEntry {
+  const [input, outDir] = rawEntry.split(":") as [string, string | undefined];
+  if (input.endsWith("/")) {
+    return { type: "transform", input, outDir };
+  }
+  if (isDynamicPattern(input)) {
+    return { type: "copy", input, outDir };
+  }
+  return { type: "bundle", input: input.split(","), outDir };
+}
 
+/**
+ * Top-level output directories of entries (nested ones are skipped).
+ */
+export function resolveOutDirs(entries: BuildEntry[]): string[] {
   const outDirs: Array<string> = [];
   for (const outDir of entries.map((e) => e.outDir).sort() as string[]) {
     if (!outDirs.some((dir) => outDir.startsWith(dir))) {
       outDirs.push(outDir);
     }
   }
-  for (const outDir of outDirs) {
-    consola.log(`🧻 Cleaning up \`${fmtPath(outDir)}\``);
-    await rm(outDir, { recursive: true, force: true });
+  return outDirs;
+}
+
+/**
+ * Remove outputs before building: output directories of entries (`clean: true`), files
+ * matching `clean` globs or nothing (`clean: false`).
+ *
+ * In dry-run mode, files that would be removed are only logged.
+ */
+export async function cleanOutputs(
+  ctx: BuildContext,
+  config: BuildConfig,
+  entries: BuildEntry[],
+): Promise<void> {
+  if (config.clean === false) {
+    return;
   }
 
-  for (const entry of entries) {
-    await (entry.type === "bundle"
-      ? rolldownBuild(ctx, entry, hooks)
-      : transformDir(ctx, entry));
+  const paths = Array.isArray(config.clean)
+    ? await glob(config.clean, {
+        cwd: ctx.pkgDir,
+        absolute: true,
+        dot: true,
+        onlyFiles: false,
+      })
+    : resolveOutDirs(entries);
+
+  if (ctx.dryRunFiles) {
+    const files: string[] = [];
+    for (const path of paths) {
+      const isDir = await stat(path).then(
+        (s) => s.isDirectory(),
+        () => undefined,
+      );
+      if (isDir) {
+        files.push(
+          ...(await glob("**/*", { cwd: path, absolute: true, dot: true })),
+        );
+      } else if (isDir === false) {
+        files.push(path);
+      }
+    }
+    consola.log(
+      `🧻 Files that would be removed:${files.length > 0 ? `\n${files.map((f) => c.dim(fmtPath(f))).join("\n")}` : c.dim(" (none)")}`,
+    );
+    return;
   }
 
-  await hooks.end?.(ctx);
+  for (const path of paths) {
+    consola.log(`🧻 Cleaning up \`${fmtPath(path)}\``);
+    await rm(path, { recursive: true, force: true });
+  }
+}
 
-  const dirSize = analyzeDir(outDirs);
-  consola.log(
-    c.dim(
-      `\nΣ Total dist byte size: ${c.underline(prettyBytes(dirSize.size))} (${c.underline(dirSize.files)} files)`,
-    ),
+// --- utils ---
+
+async function resolveBuildFiles(ctx: BuildContext, paths: string[]) {
+  return Promise.all(
+    paths.map(async (path) => {
+      const contents = ctx.dryRunFiles?.get(path);
+      return {
+        path,
+        size:
+          contents === undefined
+            ? (await stat(path)).size
+            : Buffer.byteLength(contents),
+      };
+    }),
   );
+}
 
-  consola.log(`\n✅ obuild finished in ${Date.now() - start}ms`);
+async function writeReport(
+  path: string,
+  ctx: BuildContext,
+  report: BuildReport,
+) {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(
+    path,
+    JSON.stringify(relativeReport(ctx, report), null, 2) + "\n",
+    "utf8",
+  );
 }
 
-// --- utils ---
+/**
+ * Build report with paths relative to the package directory.
+ */
+function relativeReport(ctx: BuildContext, report: BuildReport): BuildReport {
+  const relativePath = (p: string) => relative(ctx.pkgDir, p);
+  return {
+    ...report,
+    entries: report.entries.map((entry) => ({
+      ...entry,
+      input: Array.isArray(entry.input)
+        ? entry.input.map((p) => relativePath(p))
+        : relativePath(entry.input),
+      outDir: relativePath(entry.outDir),
+      ...(entry.type === "transform" || entry.type === "copy"
+        ? { files: entry.files.map((p) => relativePath(p)) }
+        : {}),
+    })),
+  };
+}
 
 function normalizePath(path: string | URL | undefined, resolveFrom?: string) {
   return typeof path === "string" && isAbsolute(path)
@@ -1,15 +1,34 @@
 import { builtinModules } from "node:module";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { readFile } from "node:fs/promises";
 import { dirname, relative, join, basename, extname, resolve } from "node:path";
-import { consola } from "consola";
+import { consola, type ConsolaInstance } from "consola";
 import { colors as c } from "consola/utils";
 import { rolldown } from "rolldown";
 import { dts } from "rolldown-plugin-dts";
 import oxcParser from "oxc-parser";
 import { resolveModulePath } from "exsolve";
 import prettyBytes from "pretty-bytes";
-import { distSize, fmtPath, sideEffectSize } from "../utils.ts";
-import { makeExecutable, shebangPlugin } from "./plugins/shebang.ts";
+import { applyAlias } from "../alias.ts";
+import {
+  distSize,
+  DTS_RE,
+  fmtPath,
+  getPackageName,
+  isNodeBuiltin,
+  NODE_MODULES_RE,
+  resolveFormats,
+  sideEffectSize,
+  writeDistFile,
+} from "../utils.ts";
+import { shebangPlugin } from "./plugins/shebang.ts";
+import { analyzePlugin } from "./plugins/analyze.ts";
+import { builtinsPlugin } from "./plugins/builtins.ts";
+import { loadersPlugin } from "./plugins/loaders.ts";
+import { checkBundleBudget } from "../budget.ts";
+import {
+  createDiagnosticsError,
+  resolveRolldownDiagnostics,
+} from "../diagnostics.ts";
 import { defu } from "defu";
 
 import type {
@@ -17,28 +36,43 @@ import type {
   Plugin,
   InputOptions,
   OutputOptions,
+  RolldownOutput,
 } from "rolldown";
 
 import type { Options as DtsOptions } from "rolldown-plugin-dts";
-import type { BuildContext, BuildHooks, BundleEntry } from "../types.ts";
+import type {
+  BuildContext,
+  BuildHooks,
+  BundleChunkAnalysis,
+  BundleEntry,
+  BundleOutput,
+  OutputFormat,
+  SizeBudget,
+} from "../types.ts";
+
+export interface RolldownBuildResult {
+  outputs: BundleOutput[];
+  /** Paths of all written files. */
+  files: string[];
+  warnings: string[];
+  /** Composition of all output chunks. */
+  chunks: BundleChunkAnalysis[];
+}
 
 export async function rolldownBuild(
   ctx: BuildContext,
   entry: BundleEntry,
   hooks: BuildHooks,
-): Promise<void> {
+  logger: ConsolaInstance = consola,
+): Promise<RolldownBuildResult> {
   const inputs: Record<string, string> = normalizeBundleInputs(
     entry.input,
     ctx,
   );
 
   if (entry.stub) {
+    const files: string[] = [];
     for (const [distName, srcPath] of Object.entries(inputs)) {
-      const distPath = join(ctx.pkgDir, "dist", `${distName}.mjs`);
-      await mkdir(dirname(distPath), { recursive: true });
-      consola.log(
-        `${c.magenta("[stub bundle] ")} ${c.underline(fmtPath(distPath))}`,
-      );
       const srcContents = await readFile(srcPath, "utf8");
       const parsed = await oxcParser.parseSync(srcPath, srcContents);
       const exportNames = parsed.module.staticExports.flatMap((e) =>
@@ -49,70 +83,89 @@ export async function rolldownBuild(
       const hasDefaultExport = exportNames.includes("default");
       const firstLine = srcContents.split("\n")[0];
       const hasShebangLine = firstLine.startsWith("#!");
-      await writeFile(
-        distPath,
-        `${hasShebangLine ? firstLine + "\n" : ""}export * from "${srcPath}";\n${hasDefaultExport ? `export { default } from "${srcPath}";\n` : ""}`,
-        "utf8",
-      );
-      if (hasShebangLine) {
-        await makeExecutable(distPath);
+      const dtsContents = `export * from "${srcPath}";\n${hasDefaultExport ? `export { default } from "${srcPath}";\n` : ""}`;
+      for (const format of resolveFormats(entry.format)) {
+        const ext = format === "cjs" ? "cjs" : "mjs";
+        const distPath = join(ctx.pkgDir, "dist", `${distName}.${ext}`);
+        logger.log(
+          `${c.magenta("[stub bundle] ")} ${c.underline(fmtPath(distPath))}`,
+        );
+        await writeDistFile(
+          ctx,
+          distPath,
+          `${hasShebangLine ? firstLine + "\n" : ""}${format === "cjs" ? `module.exports = require(${JSON.stringify(srcPath)});\n` : dtsContents}`,
+        );
+        await writeDistFile(
+          ctx,
+          distPath.replace(/\.([cm])js$/, ".d.$1ts"),
+          dtsContents,
+        );
+        files.push(distPath, distPath.replace(/\.([cm])js$/, ".d.$1ts"));
       }
-      await writeFile(
-        distPath.replace(/\.mjs$/, ".d.mts"),
-        `export * from "${srcPath}";\n${hasDefaultExport ? `export { default } from "${srcPath}";\n` : ""}`,
-        "utf8",
-      );
     }
-    return;
+    return { outputs: [], files, warnings: [], chunks: [] };
   }
 
-  const rolldownConfig = defu(entry.rolldown, {
-    cwd: ctx.pkgDir,
-    input: inputs,
-    plugins: [shebangPlugin()] as Plugin[],
-    platform: "neutral",
-    external: [
-      ...builtinModules,
-      ...builtinModules.map((m) => `node:${m}`),
-      ...[
-        ...Object.keys(ctx.pkg.dependencies || {}),
-        ...Object.keys(ctx.pkg.peerDependencies || {}),
-      ].flatMap((p) => [p, new RegExp(`^${p}/`)]),
-    ],
-  } satisfies InputOptions);
+  const outDir = resolve(ctx.pkgDir, entry.outDir || "dist");
 
-  if (entry.dts !== false) {
-    rolldownConfig.plugins.push(...dts({ ...(entry.dts as DtsOptions) }));
-  }
+  const output: RolldownOutput["output"][number][] = [];
+  const cjsFileNames = new Set<string>();
+  const warnings = new Set<string>();
+  const chunks: BundleChunkAnalysis[] = [];
 
-  await hooks.rolldownConfig?.(rolldownConfig, ctx);
+  for (const {
+    output: outConfig,
+    ...rolldownConfig
+  } of await resolveRolldownBuilds(ctx, entry, hooks)) {
+    const res = await rolldown({
+      ...rolldownConfig,
+      plugins: [rolldownConfig.plugins, analyzePlugin(ctx, outDir, chunks)],
+      onLog(level, log, defaultHandler) {
+        if (level === "warn") {
+          warnings.add(log.message);
+        }
+        if (rolldownConfig.onLog) {
+          rolldownConfig.onLog(level, log, defaultHandler);
+        } else if (level === "warn") {
+          logger.warn(log.message);
+        } else {
+          defaultHandler(level, log);
+        }
+      },
+    });
 
-  const res = await rolldown(rolldownConfig);
+    await hooks.rolldownOutput?.(outConfig, res, ctx);
 
-  const outDir = resolve(ctx.pkgDir, entry.outDir || "dist");
+    const throwBuildError = (error: unknown) =>
+      throwRolldownError(error, rolldownConfig.cwd || ctx.pkgDir, inputs);
 
-  const outConfig: OutputOptions = {
-    dir: outDir,
-    entryFileNames: "[name].mjs",
-    chunkFileNames: "_chunks/[name]-[hash].mjs",
-    minify: entry.minify,
-  };
-
-  await hooks.rolldownOutput?.(outConfig, res, ctx);
+    const { output: built } = ctx.dryRunFiles
+      ? await res.generate(outConfig).catch(throwBuildError)
+      : await res.write(outConfig).catch(throwBuildError);
+    for (const chunk of built) {
+      ctx.dryRunFiles?.set(
+        join(outDir, chunk.fileName),
+        chunk.type === "chunk" ? chunk.code : chunk.source,
+      );
+      if (outConfig.format === "cjs") {
+        cjsFileNames.add(chunk.fileName);
+      }
+    }
+    output.push(...built);
 
-  const { output } = await res.write(outConfig);
+    await res.close();
+  }
 
-  await res.close();
+  const outputEntries: BundleOutput[] = [];
 
-  const outputEntries: {
-    name: string;
-    exports: string[];
-    deps: string[];
-    size: number;
-    minSize: number;
-    minGzipSize: number;
-    sideEffectSize: number;
-  }[] = [];
+  const fmtSize = (output: BundleOutput, metric: keyof SizeBudget) => {
+    const size = prettyBytes(output[metric] ?? 0);
+    return checkBundleBudget(entry.budget, output).some(
+      (v) => v.metric === metric,
+    )
+      ? c.red(size)
+      : size;
+  };
 
   const depsCache = new Map<OutputChunk, Set<string>>();
   const resolveDeps = (chunk: OutputChunk) => {
@@ -121,7 +174,7 @@ export async function rolldownBuild(
     }
     const deps = depsCache.get(chunk)!;
     for (const id of chunk.imports) {
-      if (builtinModules.includes(id) || id.startsWith("node:")) {
+      if (isNodeBuiltin(id)) {
         deps.add(`[Node.js]`);
         continue;
       }
@@ -139,27 +192,64 @@ export async function rolldownBuild(
     return [...deps].sort();
   };
 
-  for (const chunk of output) {
-    if (chunk.type !== "chunk" || !chunk.isEntry) continue;
-    if (chunk.fileName.endsWith("ts")) continue;
+  const resolvePackages = (chunk: OutputChunk, seen = new Set<string>()) => {
+    const packages = new Set<string>();
+    seen.add(chunk.fileName);
+    for (const id of chunk.moduleIds) {
+      if (NODE_MODULES_RE.test(id)) {
+        packages.add(getPackageName(id));
+      }
+    }
+    for (const id of chunk.imports) {
+      const depChunk = output.find(
+        (o) => o.type === "chunk" && o.fileName === id,
+      ) as OutputChunk | undefined;
+      if (depChunk && !seen.has(depChunk.fileName)) {
+        for (const pkg of resolvePackages(depChunk, seen)) {
+          packages.add(pkg);
+        }
+      }
+    }
+    return [...packages].sort();
+  };
+
+  const entryChunks = output.filter(
+    (chunk): chunk is OutputChunk =>
+      chunk.type === "chunk" && chunk.isEntry && !DTS_RE.test(chunk.fileName),
+  );
 
+  // Sizes are measured by re-bundling each chunk, run them concurrently
+  const sizes = await Promise.all(
+    entryChunks.map(async (chunk) => ({
+      ...(await distSize(outDir, chunk.fileName, ctx.dryRunFiles)),
+      ...(!cjsFileNames.has(chunk.fileName) && {
+        sideEffectSize: await sideEffectSize(
+          outDir,
+          chunk.fileName,
+          ctx.dryRunFiles,
+        ),
+      }),
+    })),
+  );
+
+  for (const [i, chunk] of entryChunks.entries()) {
     outputEntries.push({
       name: chunk.fileName,
       exports: chunk.exports,
       deps: resolveDeps(chunk),
-      ...(await distSize(outDir, chunk.fileName)),
-      sideEffectSize: await sideEffectSize(outDir, chunk.fileName),
+      packages: resolvePackages(chunk),
+      ...sizes[i],
     });
   }
 
-  consola.log(
+  logger.log(
     `\n${outputEntries
       .map((o) =>
         [
           c.magenta(`[bundle] `) +
             `${c.underline(fmtPath(join(outDir, o.name)))}`,
           c.dim(
-            `${c.bold("Size:")} ${prettyBytes(o.size)}, ${c.bold(prettyBytes(o.minSize))} minified, ${prettyBytes(o.minGzipSize)} min+gzipped (Side effects: ${prettyBytes(o.sideEffectSize)})`,
+            `${c.bold("Size:")} ${fmtSize(o, "size")}, ${c.bold(fmtSize(o, "minSize"))} minified, ${fmtSize(o, "minGzipSize")} min+gzipped${o.sideEffectSize === undefined ? "" : ` (Side effects: ${fmtSize(o, "sideEffectSize")})`}`,
           ),
           o.exports.some((e) => e !== "default")
             ? c.dim(
@@ -169,12 +259,171 @@ export async function rolldownBuild(
           o.deps.length > 0
             ? c.dim(`${c.bold("Dependencies:")} ${o.deps.join(", ")}`)
             : "",
+          o.packages.length > 0
+            ? c.dim(`${c.bold("Inlined packages:")} ${o.packages.join(", ")}`)
+            : "",
         ]
           .filter(Boolean)
           .join("\n"),
       )
       .join("\n\n")}`,
   );
+
+  return {
+    outputs: outputEntries,
+    files: output.map((o) => join(outDir, o.fileName)),
+    warnings: [...warnings],
+    chunks,
+  };
+}
+
+/**
+ * Rethrow an error of a failed rolldown build with locations and code frames.
+ */
+async function throwRolldownError(
+  error: unknown,
+  cwd: string,
+  inputs: Record<string, string>,
+): Promise<never> {
+  const diagnostics = await resolveRolldownDiagnostics(error, cwd);
+  if (!diagnostics) {
+    throw error;
+  }
+  throw createDiagnosticsError(
+    `Errors while bundling ${Object.values(inputs)
+      .map((input) => fmtPath(input))
+      .join(", ")}:`,
+    diagnostics,
+  );
+}
+
+/**
+ * Resolve rolldown input and output options of each build pass for a bundle entry
+ * (each format of the entry and of its variants).
+ */
+export async function resolveRolldownBuilds(
+  ctx: BuildContext,
+  entry: BundleEntry,
+  hooks: BuildHooks,
+): Promise<(InputOptions & { output: OutputOptions })[]> {
+  const builds: (InputOptions & { output: OutputOptions })[] = [];
+
+  for (const [variant, variantEntry] of resolveBundleVariants(entry)) {
+    for (const format of resolveFormats(entry.format)) {
+      const rolldownConfig = await resolveRolldownConfig(
+        ctx,
+        variantEntry,
+        hooks,
+        format,
+      );
+      const outConfig = resolveOutputConfig(ctx, variantEntry, format, variant);
+      builds.push({ ...rolldownConfig, output: outConfig });
+
+      if (format === "cjs" && variantEntry.dts !== false) {
+        // rolldown-plugin-dts does not support cjs output, emit .d.cts files from a separate esm pass
+        builds.push({
+          ...rolldownConfig,
+          plugins: [
+            rolldownConfig.plugins,
+            ...dts({ ...(variantEntry.dts as DtsOptions), emitDtsOnly: true }),
+          ],
+          output: { ...outConfig, format: "esm" },
+        });
+      }
+    }
+  }
+
+  return builds;
+}
+
+/**
+ * The entry itself and an entry for each of its variants (with merged `define` and
+ * `minify` and without declarations), keyed by variant name.
+ */
+function resolveBundleVariants(
+  entry: BundleEntry,
+): [variant: string | undefined, entry: BundleEntry][] {
+  return [
+    [undefined, entry],
+    ...Object.entries(entry.variants || {}).map(
+      ([name, variant]): [string, BundleEntry] => [
+        name,
+        {
+          ...entry,
+          define: { ...entry.define, ...variant.define },
+          minify: variant.minify ?? entry.minify,
+          dts: false,
+        },
+      ],
+    ),
+  ];
+}
+
+/**
+ * Resolve rolldown input options for a bundle entry (after `rolldownConfig` hook).
+ */
+export async function resolveRolldownConfig(
+  ctx: BuildContext,
+  entry: BundleEntry,
+  hooks: BuildHooks,
+  format: OutputFormat = "esm",
+): Promise<InputOptions> {
+  // Node.js builtins are kept external for node (and unset) platforms only
+  const { platform } = entry;
+  const externalBuiltins = !platform || platform === "node";
+
+  const { output: _output, ...rolldownOptions } = entry.rolldown || {};
+
+  const rolldownConfig = defu(rolldownOptions, {
+    cwd: ctx.pkgDir,
+    input: normalizeBundleInputs(entry.input, ctx),
+    plugins: [
+      shebangPlugin(),
+      ...(externalBuiltins ? [] : [builtinsPlugin(platform)]),
+      ...(entry.loaders === false ? [] : [loadersPlugin(ctx, entry.loaders)]),
+    ] as Plugin[],
+    platform: platform || "neutral",
+    define: { ...entry.define },
+    transform: { ...(entry.target && { target: entry.target }) },
+    resolve: { alias: ctx.alias },
+    external: [
+      ...(externalBuiltins
+        ? [...builtinModules, ...builtinModules.map((m) => `node:${m}`)]
+        : []),
+      ...[
+        ...Object.keys(ctx.pkg.dependencies || {}),
+        ...Object.keys(ctx.pkg.peerDependencies || {}),
+      ].flatMap((p) => [p, new RegExp(`^${p}/`)]),
+    ],
+  } satisfies InputOptions);
+
+  if (format === "esm" && entry.dts !== false) {
+    rolldownConfig.plugins.push(...dts({ ...(entry.dts as DtsOptions) }));
+  }
+
+  await hooks.rolldownConfig?.(rolldownConfig, ctx);
+
+  return rolldownConfig;
+}
+
+export function resolveOutputConfig(
+  ctx: BuildContext,
+  entry: BundleEntry,
+  format: OutputFormat = "esm",
+  variant?: string,
+): OutputOptions {
+  const ext = `${variant ? `${variant}.` : ""}${format === "cjs" ? "cjs" : "mjs"}`;
+  return {
+    dir: resolve(ctx.pkgDir, entry.outDir || "dist"),
+    format,
+    exports: format === "cjs" ? "named" : undefined,
+    entryFileNames: `[name].${ext}`,
+    chunkFileNames: `_chunks/[name]-[hash].${ext}`,
+    assetFileNames: "_assets/[name]-[hash][extname]",
+    minify: entry.minify,
+    sourcemap: entry.sourcemap,
+    ...entry.rolldown?.output,
+  };
 }
 
 export function normalizeBundleInputs(
@@ -184,7 +433,7 @@ export function normalizeBundleInputs(
   const inputs: Record<string, string> = {};
 
   for (let src of Array.isArray(input) ? input : [input]) {
-    src = resolveModulePath(src, {
+    src = resolveModulePath(applyAlias(ctx.alias, src) || src, {
       from: ctx.pkgDir,
       extensions: [".ts", ".js", ".mjs", ".cjs", ".json"],
     });
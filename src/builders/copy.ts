@@ -0,0 +1,90 @@
+import type { BuildContext, CopyEntry } from "../types.ts";
+
+import { basename, dirname, join, relative } from "node:path";
+import { mkdir, readFile, rm, symlink } from "node:fs/promises";
+import { consola, type ConsolaInstance } from "consola";
+import { colors as c } from "consola/utils";
+import { glob } from "tinyglobby";
+import picomatch from "picomatch";
+import { fmtPath, writeDistFile } from "../utils.ts";
+
+export interface CopyResult {
+  /** Paths of all written files. */
+  files: string[];
+}
+
+/**
+ * Copy the files matching the inputs of a copy entry (as is, binary-safe) and return the
+ * written dist paths.
+ *
+ * In stub mode, the dist files are symlinks to the sources.
+ */
+export async function copyFiles(
+  ctx: BuildContext,
+  entry: CopyEntry,
+  logger: ConsolaInstance = consola,
+): Promise<CopyResult> {
+  const files = await resolveCopyFiles(ctx, entry);
+
+  const writtenFiles: string[] = [];
+  for (const [distPath, srcPath] of files) {
+    if (entry.stub) {
+      if (!ctx.dryRunFiles) {
+        await mkdir(dirname(distPath), { recursive: true });
+        await rm(distPath, { force: true });
+        await symlink(srcPath, distPath);
+      }
+    } else {
+      await writeDistFile(ctx, distPath, await readFile(srcPath));
+    }
+    writtenFiles.push(distPath);
+  }
+
+  logger.log(
+    `\n${c.magenta(entry.stub ? "[stub copy] " : "[copy] ")}${c.underline(fmtPath(entry.outDir!) + "/")}\n${writtenFiles
+      .map((f) => c.dim(fmtPath(f)))
+      .join("\n")}`,
+  );
+
+  return { files: writtenFiles };
+}
+
+/**
+ * Resolve the files matching the inputs of a copy entry, keyed by dist path.
+ */
+export async function resolveCopyFiles(
+  ctx: BuildContext,
+  entry: CopyEntry,
+): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+
+  for (const input of [entry.input].flat()) {
+    const base = resolveInputBase(input);
+    const srcPaths = await glob(input, { cwd: ctx.pkgDir, absolute: true });
+    for (const srcPath of srcPaths.sort()) {
+      let name = entry.flatten ? basename(srcPath) : relative(base, srcPath);
+      if (entry.rename) {
+        name = entry.rename(name);
+      }
+      const distPath = join(entry.outDir!, name);
+      const existing = files.get(distPath);
+      if (existing && existing !== srcPath) {
+        throw new Error(
+          `Rename one of the copied files to avoid a conflict in the dist path "${fmtPath(distPath)}":\n - ${srcPath}\n - ${existing}`,
+        );
+      }
+      files.set(distPath, srcPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Base directory of a copy entry input that output paths are relative to (the static
+ * part of globs or the parent directory of files and directories).
+ */
+export function resolveInputBase(input: string): string {
+  const scanned = picomatch.scan(input);
+  return scanned.isGlob ? scanned.base : dirname(input);
+}
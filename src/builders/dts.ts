@@ -0,0 +1,116 @@
+import type { BuildContext } from "../types.ts";
+import type TS from "typescript";
+
+import { dirname } from "node:path";
+import { DTS_RE } from "../utils.ts";
+
+type TypeScript = typeof TS;
+
+interface DeclarationEmitter {
+  ts: TypeScript;
+  options: TS.CompilerOptions;
+  host: TS.CompilerHost;
+  program?: TS.Program;
+}
+
+// Emitters are shared by all transform entries of a build
+const emitters = new WeakMap<BuildContext, Promise<DeclarationEmitter>>();
+
+/**
+ * Generate the declaration of a module using the TypeScript compiler API and the
+ * `tsconfig.json` of the package.
+ *
+ * Used as a fallback for modules that can't get isolated declarations.
+ */
+export async function emitDeclaration(
+  ctx: BuildContext,
+  path: string,
+): Promise<string> {
+  if (!emitters.has(ctx)) {
+    emitters.set(ctx, createEmitter(ctx));
+  }
+  const emitter = await emitters.get(ctx)!;
+  const { ts } = emitter;
+
+  // Reuse the structure of the previous program
+  const program = ts.createProgram({
+    rootNames: [path],
+    options: emitter.options,
+    host: emitter.host,
+    oldProgram: emitter.program,
+  });
+  emitter.program = program;
+
+  let declaration: string | undefined;
+  const { emitSkipped, diagnostics } = program.emit(
+    program.getSourceFile(path),
+    (fileName, text) => {
+      if (DTS_RE.test(fileName)) {
+        declaration = text;
+      }
+    },
+    undefined,
+    true /* emitOnlyDtsFiles */,
+  );
+
+  if (emitSkipped || declaration === undefined) {
+    throw new Error(
+      `TypeScript could not generate declarations for ${path}: ${ts.formatDiagnostics(diagnostics, emitter.host)}`,
+    );
+  }
+
+  return declaration;
+}
+
+async function createEmitter(ctx: BuildContext): Promise<DeclarationEmitter> {
+  const ts: TypeScript = await import("typescript").then(
+    (r) => r.default,
+    (error) => {
+      throw new Error(
+        'Install `typescript` to generate declarations with `dts: "fallback"`.',
+        { cause: error },
+      );
+    },
+  );
+
+  let options: TS.CompilerOptions = {};
+  const configPath = ts.findConfigFile(ctx.pkgDir, ts.sys.fileExists);
+  if (configPath) {
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    options = ts.parseJsonConfigFileContent(
+      config,
+      ts.sys,
+      dirname(configPath),
+    ).options;
+  }
+
+  options = {
+    ...options,
+    declaration: true,
+    emitDeclarationOnly: true,
+    noEmit: false,
+    declarationMap: false,
+    isolatedDeclarations: false,
+    composite: false,
+    incremental: false,
+  };
+
+  const host = ts.createCompilerHost(options);
+
+  // Reuse parsed source files (e.g. lib declarations) of unchanged files
+  const sourceFiles = new Map<string, TS.SourceFile>();
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, ...args) => {
+    const cached = sourceFiles.get(fileName);
+    if (cached && cached.text === host.readFile(fileName)) {
+      return cached;
+    }
+    const sourceFile = getSourceFile(fileName, ...args);
+    if (sourceFile) {
+      sourceFiles.set(fileName, sourceFile);
+    }
+    return sourceFile;
+  };
+
+  return { ts, options, host };
+}
@@ -0,0 +1,104 @@
+import type { Plugin } from "rolldown";
+import type { BuildContext, BundleChunkAnalysis } from "../../types.ts";
+
+import { join, relative } from "node:path";
+import { DTS_RE, getPackageName, NODE_MODULES_RE } from "../../utils.ts";
+
+/**
+ * Collect the modules of each output chunk with their rendered sizes and the importer
+ * chain from an entry module, and the entries sharing each chunk.
+ */
+export function analyzePlugin(
+  ctx: BuildContext,
+  outDir: string,
+  chunks: BundleChunkAnalysis[],
+): Plugin {
+  const relativeId = (id: string) =>
+    id.startsWith("\0")
+      ? id
+      : NODE_MODULES_RE.test(id)
+        ? id.split(NODE_MODULES_RE).pop()!
+        : relative(ctx.pkgDir, id);
+
+  return {
+    name: "obuild-analyze",
+    generateBundle(_options, bundle) {
+      // Shortest importer chain from an entry module to a module
+      const importerChain = (id: string) => {
+        const queue = [[id]];
+        const seen = new Set([id]);
+        while (queue.length > 0) {
+          const chain = queue.shift()!;
+          const info = this.getModuleInfo(chain[0]);
+          if (!info || info.isEntry) {
+            return chain.map((id) => relativeId(id));
+          }
+          for (const importer of [
+            ...info.importers,
+            ...info.dynamicImporters,
+          ]) {
+            if (!seen.has(importer)) {
+              seen.add(importer);
+              queue.push([importer, ...chain]);
+            }
+          }
+        }
+        return [relativeId(id)];
+      };
+
+      const outputChunks = Object.values(bundle).filter(
+        (chunk) => chunk.type === "chunk" && !DTS_RE.test(chunk.fileName),
+      ) as Extract<(typeof bundle)[string], { type: "chunk" }>[];
+
+      // Entry chunks (transitively) importing each chunk
+      const entries = new Map<string, Set<string>>();
+      const addEntry = (fileName: string, entry: string) => {
+        const chunk = outputChunks.find((c) => c.fileName === fileName);
+        if (!chunk || entries.get(fileName)?.has(entry)) {
+          return;
+        }
+        entries.set(fileName, (entries.get(fileName) || new Set()).add(entry));
+        for (const id of [...chunk.imports, ...chunk.dynamicImports]) {
+          addEntry(id, entry);
+        }
+      };
+      for (const chunk of outputChunks) {
+        if (chunk.isEntry) {
+          addEntry(chunk.fileName, chunk.fileName);
+        }
+      }
+
+      const outputName = (fileName: string) =>
+        relative(ctx.pkgDir, join(outDir, fileName));
+
+      for (const chunk of outputChunks) {
+        chunks.push({
+          name: outputName(chunk.fileName),
+          entry: chunk.isEntry,
+          size: Buffer.byteLength(chunk.code),
+          imports: chunk.imports
+            .filter((id) => bundle[id])
+            .map((id) => outputName(id)),
+          dynamicImports: chunk.dynamicImports
+            .filter((id) => bundle[id])
+            .map((id) => outputName(id)),
+          entries: [...(entries.get(chunk.fileName) || [])]
+            .filter((entry) => entry !== chunk.fileName)
+            .map((entry) => outputName(entry)),
+          modules: Object.entries(chunk.modules)
+            .map(([id, module]) => ({
+              id: relativeId(id),
+              package: NODE_MODULES_RE.test(id)
+                ? getPackageName(id)
+                : undefined,
+              size: module.code
+                ? Buffer.byteLength(module.code)
+                : module.renderedLength,
+              importers: importerChain(id),
+            }))
+            .sort((a, b) => b.size - a.size),
+        });
+      }
+    },
+  };
+}
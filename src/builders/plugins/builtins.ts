@@ -0,0 +1,26 @@
+import type { Plugin } from "rolldown";
+
+import { DTS_RE, fmtPath, isNodeBuiltin } from "../../utils.ts";
+
+/**
+ * Fail the build when a module of a `browser` or `neutral` entry imports a Node.js builtin.
+ */
+export function builtinsPlugin(platform: "browser" | "neutral"): Plugin {
+  return {
+    name: "obuild-builtins",
+    resolveId(id, importer) {
+      // Type imports of declarations are erased
+      if (isNodeBuiltin(id) && !(importer && DTS_RE.test(importer))) {
+        throw new Error(fmtBuiltinImportError(id, platform, importer));
+      }
+    },
+  };
+}
+
+export function fmtBuiltinImportError(
+  id: string,
+  platform: string,
+  importer?: string,
+): string {
+  return `Node.js builtin \`${id}\` can't be imported by \`${platform}\` entries${importer ? ` (imported by ${fmtPath(importer)})` : ""}. Set \`platform: "node"\` to keep it external.`;
+}
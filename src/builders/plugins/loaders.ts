@@ -0,0 +1,193 @@
+import type { Plugin } from "rolldown";
+import type { BuildContext, BundleLoaders } from "../../types.ts";
+
+import { readFile } from "node:fs/promises";
+import { basename, dirname, extname, join, relative, resolve } from "node:path";
+import MagicString from "magic-string";
+import { DTS_RE } from "../../utils.ts";
+
+const DEFAULT_TEXT_EXTENSIONS = [".txt", ".sql", ".graphql", ".gql"];
+
+// Extensions of assets with their MIME types (used for data URLs)
+const ASSET_TYPES: Record<string, string> = {
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".wasm": "application/wasm",
+};
+
+const DEFAULT_ASSET_EXTENSIONS = Object.keys(ASSET_TYPES);
+
+const DEFAULT_INLINE_LIMIT = 4096;
+
+const RAW_RE = /\?raw$/;
+const ASSET_PLACEHOLDER_RE = /\b__OBUILD_ASSET_(\w+)__\b/g;
+const IDENTIFIER_RE = /^[A-Z_$][\w$]*$/i;
+
+// Reserved words can't be names of exported variables
+const RESERVED_WORDS = new Set(
+  "break case catch class const continue debugger default delete do else enum export extends false finally for function if import in instanceof new null return super switch this throw true try typeof var void while with".split(
+    " ",
+  ),
+);
+
+// Declarations of text and asset modules (both export a string)
+const STRING_DTS_ID = "\0obuild-loaders:string.d.ts";
+const JSON_DTS_PREFIX = "\0obuild-loaders:json:";
+
+/**
+ * Load `?raw` and text imports as strings and assets as URLs (inlined as base64 data URLs
+ * below `inlineLimit` or emitted to `_assets/`), with declarations for imports of
+ * generated `.d.ts` files (including named exports of JSON modules).
+ */
+export function loadersPlugin(
+  ctx: BuildContext,
+  options: BundleLoaders = {},
+): Plugin {
+  const textExtensions = options.text || DEFAULT_TEXT_EXTENSIONS;
+  const assetExtensions = options.assets || DEFAULT_ASSET_EXTENSIONS;
+  const inlineLimit = options.inlineLimit ?? DEFAULT_INLINE_LIMIT;
+
+  const isText = (id: string) =>
+    RAW_RE.test(id) || textExtensions.includes(extname(id));
+  const isAsset = (id: string) => assetExtensions.includes(extname(id));
+
+  return {
+    name: "obuild-loaders",
+    resolveId: {
+      // Before rolldown-plugin-dts, which keeps unknown imports of declarations external
+      order: "pre",
+      async handler(id, importer, options) {
+        if (importer && DTS_RE.test(importer)) {
+          if (isText(id) || isAsset(id)) {
+            return { id: STRING_DTS_ID };
+          }
+          // Declarations are next to their sources
+          if (extname(id) === ".json" && id.startsWith(".")) {
+            const path = relative(ctx.pkgDir, resolve(dirname(importer), id));
+            return { id: `${JSON_DTS_PREFIX}${path}.d.ts` };
+          }
+          return;
+        }
+        if (RAW_RE.test(id)) {
+          const resolved = await this.resolve(
+            id.replace(RAW_RE, ""),
+            importer,
+            options,
+          );
+          return resolved && { id: `${resolved.id}?raw` };
+        }
+      },
+    },
+    async load(id) {
+      if (id === STRING_DTS_ID) {
+        return "declare const _default: string;\nexport default _default;\n";
+      }
+      if (id.startsWith(JSON_DTS_PREFIX)) {
+        const path = id.slice(JSON_DTS_PREFIX.length).replace(DTS_RE, "");
+        return jsonDeclaration(
+          JSON.parse(await readFile(join(ctx.pkgDir, path), "utf8")),
+        );
+      }
+      if (isText(id)) {
+        const text = await readFile(id.replace(RAW_RE, ""), "utf8");
+        return {
+          code: `export default ${JSON.stringify(text)};\n`,
+          moduleType: "js",
+        };
+      }
+      if (isAsset(id)) {
+        const source = await readFile(id);
+        if (source.length < inlineLimit) {
+          const type = ASSET_TYPES[extname(id)] || "application/octet-stream";
+          const url = `data:${type};base64,${source.toString("base64")}`;
+          return {
+            code: `export default ${JSON.stringify(url)};\n`,
+            moduleType: "js",
+          };
+        }
+        const referenceId = this.emitFile({
+          type: "asset",
+          name: basename(id),
+          source,
+        });
+        // Replaced by the URL of the emitted file in `renderChunk`
+        return {
+          code: `export default __OBUILD_ASSET_${referenceId}__;\n`,
+          moduleType: "js",
+        };
+      }
+    },
+    renderChunk(code, chunk, outputOptions) {
+      if (!code.includes("__OBUILD_ASSET_")) {
+        return;
+      }
+      // Asset URLs are relative to the chunk
+      const base =
+        outputOptions.format === "cjs"
+          ? 'require("node:url").pathToFileURL(__filename)'
+          : "import.meta.url";
+      const s = new MagicString(code);
+      for (const match of code.matchAll(ASSET_PLACEHOLDER_RE)) {
+        const path = relative(
+          dirname(chunk.fileName),
+          this.getFileName(match[1]),
+        ).replaceAll("\\", "/");
+        s.overwrite(
+          match.index,
+          match.index + match[0].length,
+          `new URL(${JSON.stringify(`./${path}`)}, ${base}).href`,
+        );
+      }
+      return {
+        code: s.toString(),
+        map: outputOptions.sourcemap ? s.generateMap({ hires: true }) : null,
+      };
+    },
+  };
+}
+
+/**
+ * Declaration of a JSON module with a default export and named exports of its
+ * top-level keys (that are valid identifiers).
+ */
+function jsonDeclaration(value: unknown): string {
+  const lines = [`declare const _default: ${jsonType(value)};`];
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      if (IDENTIFIER_RE.test(key) && !RESERVED_WORDS.has(key)) {
+        lines.push(`export declare const ${key}: ${jsonType(item)};`);
+      }
+    }
+  }
+  lines.push("export default _default;", "");
+  return lines.join("\n");
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    const types = [...new Set(value.map((item) => jsonType(item)))];
+    return types.length === 0
+      ? "unknown[]"
+      : types.length === 1
+        ? `${types[0]}[]`
+        : `(${types.join(" | ")})[]`;
+  }
+  if (typeof value === "object") {
+    const members = Object.entries(value).map(
+      ([key, item]) => `${JSON.stringify(key)}: ${jsonType(item)};`,
+    );
+    return members.length > 0 ? `{ ${members.join(" ")} }` : "{}";
+  }
+  return typeof value;
+}
@@ -1,155 +1,569 @@
-import type { BuildContext, TransformEntry } from "../types.ts";
+import type {
+  BuildContext,
+  BuildHooks,
+  OutputFormat,
+  TransformEntry,
+  TransformFileContext,
+} from "../types.ts";
+
+import { resolveAlias } from "../alias.ts";
 
 import { pathToFileURL } from "node:url";
-import { dirname, extname, join, relative } from "node:path";
-import { mkdir, readFile, symlink, writeFile } from "node:fs/promises";
-import { consola } from "consola";
+import {
+  basename,
+  dirname,
+  extname,
+  isAbsolute,
+  join,
+  relative,
+} from "node:path";
+import { readFile, symlink } from "node:fs/promises";
+import { consola, LogLevels, type ConsolaInstance } from "consola";
 import { colors as c } from "consola/utils";
 import { resolveModulePath, type ResolveOptions } from "exsolve";
 import MagicString from "magic-string";
+import remapping, { type EncodedSourceMap } from "@jridgewell/remapping";
 import oxcTransform from "oxc-transform";
 import oxcParser from "oxc-parser";
-import { fmtPath } from "../utils.ts";
+import { rolldown } from "rolldown";
+import { emitDeclaration } from "./dts.ts";
+import {
+  combineErrors,
+  createDiagnostic,
+  createDiagnosticsError,
+  fmtLocation,
+} from "../diagnostics.ts";
+import {
+  DTS_RE,
+  fmtPath,
+  isNodeBuiltin,
+  resolveFormats,
+  writeDistFile,
+} from "../utils.ts";
+import { fmtBuiltinImportError } from "./plugins/builtins.ts";
+import { createCache, hashKey, type Cache } from "../cache.ts";
 import { glob } from "tinyglobby";
+import picomatch from "picomatch";
 import { minify } from "oxc-minify";
-import { makeExecutable, SHEBANG_RE } from "./plugins/shebang.ts";
+
+const TRANSFORM_RE = /\.(?:[cm]?ts|tsx|jsx?)$/;
+
+// TypeScript sources of NodeNext-style specifiers (`./foo.js` -> `./foo.ts`)
+const SOURCE_EXTENSIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+};
+
+export interface TransformDirResult {
+  /** Paths of all written files. */
+  files: string[];
+  warnings: string[];
+}
 
 /**
- * Transform all .ts modules in a directory using oxc-transform.
+ * Transform all TypeScript, JSX and JavaScript modules in a directory using oxc-transform
+ * and return the written dist paths.
  */
 export async function transformDir(
   ctx: BuildContext,
   entry: TransformEntry,
-): Promise<void> {
+  hooks: BuildHooks,
+  logger: ConsolaInstance = consola,
+): Promise<TransformDirResult> {
   if (entry.stub) {
-    consola.log(
+    logger.log(
       `${c.magenta("[stub transform]   ")} ${c.underline(fmtPath(entry.outDir!) + "/")}`,
     );
-    await symlink(entry.input, entry.outDir!, "junction");
-    return;
+    if (!ctx.dryRunFiles) {
+      await symlink(entry.input, entry.outDir!, "junction");
+    }
+    return { files: [], warnings: [] };
   }
 
-  const promises: Promise<string>[] = [];
-
-  for await (const entryName of await glob("**/*.*", { cwd: entry.input })) {
-    promises.push(
-      (async () => {
-        const entryPath = join(entry.input, entryName);
-        const ext = extname(entryPath);
-        switch (ext) {
-          case ".ts": {
-            {
-              const transformed = await transformModule(entryPath, entry);
-              const entryDistPath = join(
-                entry.outDir!,
-                entryName.replace(/\.ts$/, ".mjs"),
-              );
-              await mkdir(dirname(entryDistPath), { recursive: true });
-              await writeFile(entryDistPath, transformed.code, "utf8");
-
-              if (SHEBANG_RE.test(transformed.code)) {
-                await makeExecutable(entryDistPath);
-              }
-
-              if (transformed.declaration) {
-                await writeFile(
-                  entryDistPath.replace(/\.mjs$/, ".d.mts"),
-                  transformed.declaration,
-                  "utf8",
-                );
-              }
-              return entryDistPath;
-            }
-          }
-          default: {
-            {
-              const entryDistPath = join(entry.outDir!, entryName);
-              await mkdir(dirname(entryDistPath), { recursive: true });
-              const code = await readFile(entryPath, "utf8");
-              await writeFile(entryDistPath, code, "utf8");
-
-              if (SHEBANG_RE.test(code)) {
-                await makeExecutable(entryDistPath);
-              }
-
-              return entryDistPath;
-            }
-          }
-        }
-      })(),
-    );
+  const allEntryNames = await glob("**/*.*", { cwd: entry.input });
+  const entryNames = allEntryNames.filter(
+    (entryName) => resolveFileAction(entry, entryName) !== "skip",
+  );
+  const skippedNames = allEntryNames.filter(
+    (entryName) => !entryNames.includes(entryName),
+  );
+
+  // Output of `transform:file` hooks and declarations generated by TypeScript (depending
+  // on other modules) can't be part of the cache key
+  const cache =
+    entry.cache === false ||
+    hooks["transform:file"] ||
+    entry.dts === "fallback" ||
+    ctx.dryRunFiles
+      ? undefined
+      : createTransformCache(ctx, entry, entryNames);
+
+  const promises: Promise<TransformDirResult>[] = [];
+
+  for (const entryName of entryNames) {
+    promises.push(transformFile(ctx, entry, entryName, hooks, cache, logger));
   }
 
-  const writtenFiles = await Promise.all(promises);
+  // Collect errors of all files before failing
+  const settled = await Promise.allSettled(promises);
+  const errors = settled.flatMap((r) =>
+    r.status === "rejected" ? [r.reason] : [],
+  );
+  if (errors.length > 0) {
+    throw combineErrors(errors);
+  }
+  const results = settled.map(
+    (r) => (r as PromiseFulfilledResult<TransformDirResult>).value,
+  );
+  const writtenFiles = results.flatMap((r) => r.files);
 
-  consola.log(
-    `\n${c.magenta("[transform] ")}${c.underline(fmtPath(entry.outDir!) + "/")}\n${writtenFiles
+  logger.log(
+    `\n${c.magenta("[transform] ")}${c.underline(fmtPath(entry.outDir!) + "/")}${cache ? c.dim(` (cache: ${cache.stats.hits} hits, ${cache.stats.misses} misses)`) : ""}\n${writtenFiles
       .map((f) => c.dim(fmtPath(f)))
-      .join("\n\n")}`,
+      .join("\n\n")}${
+      logger.level >= LogLevels.debug && skippedNames.length > 0
+        ? `\n\n${c.dim(`${c.bold("Skipped:")} ${skippedNames.join(", ")}`)}`
+        : ""
+    }`,
   );
+
+  return {
+    files: writtenFiles,
+    warnings: results.flatMap((r) => r.warnings),
+  };
 }
 
 /**
- * Transform a .ts module using oxc-transform.
+ * Transform (or copy) a single file of a transform entry and return the written dist paths.
  */
-async function transformModule(entryPath: string, entry: TransformEntry) {
-  let sourceText = await readFile(entryPath, "utf8");
+export async function transformFile(
+  ctx: BuildContext,
+  entry: TransformEntry,
+  entryName: string,
+  hooks: BuildHooks,
+  cache?: TransformCache,
+  logger: ConsolaInstance = consola,
+): Promise<TransformDirResult> {
+  const entryPath = join(entry.input, entryName);
 
-  const sourceOptions = {
-    lang: "ts",
-    sourceType: "module",
-  } as const;
+  if (resolveFileAction(entry, entryName) !== "transform") {
+    const entryDistPath = join(entry.outDir!, entryName);
+    let contents: string | Buffer = await readFile(entryPath);
+    // Only decode (text) files when hooks can modify them, binary files are copied as is
+    if (hooks["transform:copy"]) {
+      const file = { entry, path: entryPath, code: contents.toString("utf8") };
+      await hooks["transform:copy"](file, ctx);
+      contents = file.code;
+    }
+    await writeDistFile(ctx, entryDistPath, contents);
 
-  const parsed = oxcParser.parseSync(entryPath, sourceText, {
-    ...sourceOptions,
+    return { files: [entryDistPath], warnings: [] };
+  }
+
+  const sourceText = await readFile(entryPath, "utf8");
+  const writtenFiles: string[] = [];
+  const warnings = new Set<string>();
+  for (const format of resolveSourceFormats(entry, entryName)) {
+    const cacheKey = cache?.key(entryName, format, sourceText);
+    let transformed = cacheKey ? await cache!.get(cacheKey) : undefined;
+    if (!transformed) {
+      transformed = await transformModule(
+        ctx,
+        entryPath,
+        sourceText,
+        entry,
+        format,
+        hooks,
+      );
+      if (cacheKey) {
+        await cache!.set(cacheKey, transformed);
+      }
+    }
+    for (const warning of transformed.warnings || []) {
+      warnings.add(warning);
+    }
+    const entryDistPath = resolveDistPath(entry, entryName, format);
+
+    if (transformed.map) {
+      transformed.map.file = basename(entryDistPath);
+      transformed.map.sources = transformed.map.sources.map(
+        (source) => source && relative(dirname(entryDistPath), source),
+      );
+      const mapJSON = JSON.stringify(transformed.map);
+      if (entry.sourcemap === "inline") {
+        transformed.code += `\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(mapJSON).toString("base64")}\n`;
+      } else {
+        await writeDistFile(ctx, `${entryDistPath}.map`, mapJSON);
+        writtenFiles.push(`${entryDistPath}.map`);
+        if (entry.sourcemap !== "hidden") {
+          transformed.code += `\n//# sourceMappingURL=${basename(entryDistPath)}.map\n`;
+        }
+      }
+    }
+
+    await writeDistFile(ctx, entryDistPath, transformed.code);
+
+    writtenFiles.push(entryDistPath);
+
+    if (transformed.declaration) {
+      const dtsPath = entryDistPath.replace(/\.([cm])js$/, ".d.$1ts");
+      await writeDistFile(ctx, dtsPath, transformed.declaration);
+      writtenFiles.push(dtsPath);
+    }
+  }
+
+  for (const warning of warnings) {
+    logger.warn(warning);
+  }
+
+  return { files: writtenFiles, warnings: [...warnings] };
+}
+
+export interface TransformResult {
+  code: string;
+  declaration?: string;
+  map?: EncodedSourceMap;
+  warnings?: string[];
+}
+
+export interface TransformCache extends Cache<TransformResult> {
+  key: (entryName: string, format: OutputFormat, sourceText: string) => string;
+}
+
+/**
+ * Cache of transformed modules, keyed by source contents, entry options and the
+ * list of files in the entry (relative imports resolve against them).
+ */
+function createTransformCache(
+  ctx: BuildContext,
+  entry: TransformEntry,
+  entryNames: string[],
+): TransformCache {
+  const entryKey = hashKey(
+    entry.input,
+    entry.oxc,
+    entry.jsx,
+    entry.platform,
+    entry.target,
+    entry.define,
+    entry.copy,
+    entry.dts,
+    entry.minify,
+    entry.resolve,
+    entry.sourcemap,
+    ctx.pkg.imports,
+    ctx.alias,
+    [...entryNames].sort(),
+  );
+  return {
+    ...createCache<TransformResult>(ctx, "transform"),
+    key: (entryName, format, sourceText) =>
+      hashKey(entryKey, entryName, format, sourceText),
+  };
+}
+
+/**
+ * Dist paths that a source file of a transform entry is written to.
+ */
+export function resolveDistFiles(
+  entry: TransformEntry,
+  entryName: string,
+): string[] {
+  if (resolveFileAction(entry, entryName) !== "transform") {
+    return [join(entry.outDir!, entryName)];
+  }
+  const hasDeclaration = resolveLang(entryName).startsWith("ts");
+  return resolveSourceFormats(entry, entryName).flatMap((format) => {
+    const entryDistPath = resolveDistPath(entry, entryName, format);
+    return [
+      entryDistPath,
+      ...(hasDeclaration
+        ? [entryDistPath.replace(/\.([cm])js$/, ".d.$1ts")]
+        : []),
+      ...(entry.sourcemap && entry.sourcemap !== "inline"
+        ? [`${entryDistPath}.map`]
+        : []),
+    ];
   });
+}
 
-  if (parsed.errors.length > 0) {
-    throw new Error(`Errors while parsing ${entryPath}:`, {
-      cause: parsed.errors,
-    });
+function resolveDistPath(
+  entry: TransformEntry,
+  entryName: string,
+  format: OutputFormat,
+): string {
+  return join(entry.outDir!, replaceExtension(entryName, format));
+}
+
+/**
+ * Whether a source file of a transform entry is transformed, copied as is or skipped,
+ * based on the `include`, `exclude` and `copy` options.
+ */
+export function resolveFileAction(
+  entry: TransformEntry,
+  entryName: string,
+): "transform" | "copy" | "skip" {
+  if (
+    !picomatch.isMatch(entryName, entry.include || ["**/*.*"], {
+      ignore: entry.exclude,
+    })
+  ) {
+    return "skip";
   }
+  if (entry.copy && picomatch.isMatch(entryName, entry.copy)) {
+    return "copy";
+  }
+  return isTransformable(entryName) ? "transform" : "copy";
+}
+
+function isTransformable(path: string): boolean {
+  return TRANSFORM_RE.test(path) && !DTS_RE.test(path);
+}
+
+/**
+ * Replace the extension of a transformable source with the output extension of a format.
+ */
+function replaceExtension(path: string, format: OutputFormat): string {
+  return isTransformable(path)
+    ? path.replace(
+        TRANSFORM_RE,
+        resolveOutputFormat(path, format) === "cjs" ? ".cjs" : ".mjs",
+      )
+    : path;
+}
+
+/**
+ * Output formats of a source file: `.mts` and `.cts` sources are always written as ESM
+ * and CommonJS, other sources in the formats of the entry.
+ */
+function resolveSourceFormats(
+  entry: TransformEntry,
+  entryName: string,
+): OutputFormat[] {
+  return [
+    ...new Set(
+      resolveFormats(entry.format).map((format) =>
+        resolveOutputFormat(entryName, format),
+      ),
+    ),
+  ];
+}
+
+function resolveOutputFormat(path: string, format: OutputFormat): OutputFormat {
+  const ext = extname(path);
+  return ext === ".mts" ? "esm" : ext === ".cts" ? "cjs" : format;
+}
+
+/**
+ * Resolve the source file of a relative or aliased (package.json `imports` or `alias`)
+ * specifier. NodeNext-style `.js` specifiers resolve to their `.ts` sources.
+ *
+ * Returns `undefined` for bare specifiers and aliases pointing outside of the entry.
+ */
+function resolveSpecifier(
+  ctx: BuildContext,
+  entry: TransformEntry,
+  id: string,
+  resolveOptions: ResolveOptions,
+): string | undefined {
+  if (id.startsWith(".")) {
+    return (
+      resolveSourcePath(id, resolveOptions) ||
+      resolveModulePath(id, resolveOptions)
+    );
+  }
+  const aliasPath = resolveAlias(ctx, id);
+  if (aliasPath && isAbsolute(aliasPath)) {
+    const resolved = resolveSourcePath(
+      pathToFileURL(aliasPath).href,
+      resolveOptions,
+    );
+    if (resolved && !relative(entry.input, resolved).startsWith("..")) {
+      return resolved;
+    }
+  }
+}
+
+/**
+ * Rewrite a relative or aliased specifier to the relative path of its output in a format.
+ *
+ * Returns `undefined` if the specifier is kept as is.
+ */
+function resolveOutputSpecifier(
+  ctx: BuildContext,
+  entry: TransformEntry,
+  entryPath: string,
+  id: string,
+  format: OutputFormat,
+  resolveOptions: ResolveOptions,
+): string | undefined {
+  const resolved = resolveSpecifier(ctx, entry, id, resolveOptions);
+  if (!resolved) {
+    return;
+  }
+  const newId = relative(
+    dirname(entryPath),
+    replaceExtension(resolved, format),
+  );
+  return newId.startsWith(".") ? newId : `./${newId}`;
+}
 
-  const resolveOptions: ResolveOptions = {
+function resolveSpecifierOptions(
+  entry: TransformEntry,
+  entryPath: string,
+): ResolveOptions {
+  return {
     ...entry.resolve,
     from: pathToFileURL(entryPath),
     extensions: entry.resolve?.extensions ?? [
       ".ts",
+      ".tsx",
+      ".mts",
+      ".cts",
       ".js",
+      ".jsx",
       ".mjs",
       ".cjs",
       ".json",
     ],
     suffixes: entry.resolve?.suffixes ?? ["", "/index"],
   };
+}
+
+function resolveSourcePath(
+  id: string,
+  resolveOptions: ResolveOptions,
+): string | undefined {
+  const sourceIds = SOURCE_EXTENSIONS[extname(id)]?.map((ext) =>
+    id.replace(/\.[^./]+$/, ext),
+  );
+  for (const sourceId of [...(sourceIds || []), id]) {
+    const resolved = resolveModulePath(sourceId, {
+      ...resolveOptions,
+      try: true,
+    });
+    if (resolved) {
+      return resolved;
+    }
+  }
+}
+
+function resolveLang(path: string): "ts" | "tsx" | "js" | "jsx" {
+  const ext = extname(path);
+  if (ext === ".tsx" || ext === ".jsx" || ext === ".js") {
+    return ext.slice(1) as "tsx" | "jsx" | "js";
+  }
+  return "ts";
+}
+
+/**
+ * Transform a TypeScript, JSX or JavaScript module using oxc-transform.
+ */
+async function transformModule(
+  ctx: BuildContext,
+  entryPath: string,
+  sourceText: string,
+  entry: TransformEntry,
+  format: OutputFormat,
+  hooks: BuildHooks,
+): Promise<TransformResult> {
+  const runFileHook = async (stage: "before" | "after", code: string) => {
+    if (!hooks["transform:file"]) {
+      return code;
+    }
+    const file: TransformFileContext = {
+      entry,
+      path: entryPath,
+      format,
+      stage,
+      code,
+    };
+    await hooks["transform:file"](file, ctx);
+    return file.code;
+  };
+
+  sourceText = await runFileHook("before", sourceText);
+
+  const sourceOptions = {
+    lang: resolveLang(entryPath),
+    sourceType: "module",
+  } as const;
+
+  const parsed = oxcParser.parseSync(entryPath, sourceText, {
+    ...sourceOptions,
+  });
+
+  if (parsed.errors.length > 0) {
+    throw createDiagnosticsError(
+      `Errors while parsing ${fmtPath(entryPath)}:`,
+      parsed.errors.map((err) =>
+        createDiagnostic(err.message, entryPath, sourceText, err.labels[0]),
+      ),
+    );
+  }
+
+  if (entry.platform && entry.platform !== "node") {
+    const builtinImports = [
+      ...parsed.module.staticImports
+        .filter(
+          (i) => i.entries.length === 0 || i.entries.some((e) => !e.isType),
+        )
+        .map((i) => i.moduleRequest),
+      ...parsed.module.staticExports.flatMap((e) =>
+        e.entries
+          .filter(
+            (exportEntry) => exportEntry.moduleRequest && !exportEntry.isType,
+          )
+          .map((exportEntry) => exportEntry.moduleRequest!),
+      ),
+    ].filter((req) => isNodeBuiltin(req.value));
+    if (builtinImports.length > 0) {
+      throw createDiagnosticsError(
+        `Errors while transforming ${fmtPath(entryPath)}:`,
+        builtinImports.map((req) =>
+          createDiagnostic(
+            fmtBuiltinImportError(req.value, entry.platform!),
+            entryPath,
+            sourceText,
+            req,
+          ),
+        ),
+      );
+    }
+  }
+
+  const resolveOptions = resolveSpecifierOptions(entry, entryPath);
+
+  const warnings: string[] = [];
 
   const magicString = new MagicString(sourceText);
 
-  // Rewrite relative imports
+  // Rewrite relative and aliased imports
   const updatedStarts = new Set<number>();
   const rewriteSpecifier = (req: {
     value: string;
     start: number;
     end: number;
   }) => {
-    const moduleId = req.value;
-    if (!moduleId.startsWith(".")) {
-      return;
-    }
     if (updatedStarts.has(req.start)) {
       return; // prevent double rewritings
     }
     updatedStarts.add(req.start);
-    const resolvedAbsolute = resolveModulePath(moduleId, resolveOptions);
-    const newId = relative(
-      dirname(entryPath),
-      resolvedAbsolute.replace(/\.ts$/, ".mjs"),
+    const newId = resolveOutputSpecifier(
+      ctx,
+      entry,
+      entryPath,
+      req.value,
+      format,
+      resolveOptions,
     );
+    if (!newId) {
+      return;
+    }
     magicString.remove(req.start, req.end);
-    magicString.prependLeft(
-      req.start,
-      JSON.stringify(newId.startsWith(".") ? newId : `./${newId}`),
-    );
+    magicString.prependLeft(req.start, JSON.stringify(newId));
   };
 
   for (const staticImport of parsed.module.staticImports) {
@@ -164,46 +578,282 @@ async function transformModule(entryPath: string, entry: TransformEntry) {
     }
   }
 
+  for (const dynamicImport of parsed.module.dynamicImports) {
+    const { start, end } = dynamicImport.moduleRequest;
+    const literal = sourceText.slice(start, end).match(/^(["'`])(.*)\1$/s);
+    if (literal && !(literal[1] === "`" && literal[2].includes("${"))) {
+      rewriteSpecifier({ value: literal[2], start, end });
+    } else {
+      warnings.push(
+        `Non-literal dynamic import can not be rewritten: \`${sourceText.slice(start, end)}\` in ${fmtPath(entryPath)}`,
+      );
+    }
+  }
+
   sourceText = magicString.toString();
 
+  // Source maps of each step, chained into a single map at the end
+  const sourcemap = !!entry.sourcemap;
+  const maps: string[] = [];
+  if (sourcemap) {
+    maps.push(
+      magicString
+        .generateMap({
+          hires: true,
+          source: entryPath,
+          includeContent: true,
+        })
+        .toString(),
+    );
+  }
+
   const transformed = oxcTransform.transform(entryPath, sourceText, {
     ...entry.oxc,
     ...sourceOptions,
     cwd: dirname(entryPath),
+    sourcemap,
+    ...(entry.jsx && { jsx: entry.jsx }),
+    ...(entry.target && { target: entry.target }),
+    ...(entry.define && { define: { ...entry.oxc?.define, ...entry.define } }),
     typescript: {
-      declaration: { stripInternal: true },
+      declaration: sourceOptions.lang.startsWith("ts")
+        ? { stripInternal: true }
+        : undefined,
       ...entry.oxc?.typescript,
     },
   });
 
   const transformErrors = transformed.errors.filter(
-    (err) => !err.message.includes("--isolatedDeclarations"),
+    (err) => !isIsolatedDeclarationError(err),
   );
 
   if (transformErrors.length > 0) {
-    // console.log(sourceText);
-    await writeFile(
-      "build-dump.ts",
-      `/** Error dump for ${entryPath} */\n\n` + sourceText,
-      "utf8",
+    throw createDiagnosticsError(
+      `Errors while transforming ${fmtPath(entryPath)}:`,
+      transformErrors.map((err) =>
+        createDiagnostic(err.message, entryPath, sourceText, err.labels[0]),
+      ),
     );
-    throw new Error(
-      `Errors while transforming ${entryPath}: (hint: check build-dump.ts)`,
-      {
-        cause: transformErrors,
-      },
+  }
+
+  let declaration = transformed.declaration;
+  const declarationErrors = transformed.errors.filter((err) =>
+    isIsolatedDeclarationError(err),
+  );
+  if (declarationErrors.length > 0) {
+    const diagnostics = declarationErrors.map((err) =>
+      createDiagnostic(err.message, entryPath, sourceText, err.labels[0]),
     );
+    const dtsMode = entry.dts || "warn";
+    if (dtsMode === "strict") {
+      throw createDiagnosticsError(
+        `Declarations of ${fmtPath(entryPath)} can not be generated in isolation:`,
+        diagnostics,
+      );
+    } else if (dtsMode === "fallback") {
+      declaration = rewriteDeclarationSpecifiers(
+        ctx,
+        entry,
+        entryPath,
+        await emitDeclaration(ctx, entryPath),
+        format,
+        resolveOptions,
+      );
+    } else {
+      warnings.push(
+        `Declarations of ${fmtPath(entryPath)} are incomplete (use \`dts: "fallback"\` to generate them with TypeScript):\n${diagnostics.map((d) => `  ${fmtLocation(d)} ${d.message}`).join("\n")}`,
+      );
+    }
+  }
+
+  let code = transformed.code;
+  if (transformed.map) {
+    maps.push(JSON.stringify(transformed.map));
+  }
+
+  if (format === "cjs") {
+    if (parsed.module.importMetas.length > 0) {
+      warnings.push(
+        `\`import.meta\` can not be represented in CommonJS output: ${fmtPath(entryPath)}`,
+      );
+    }
+    if (hasTopLevelAwait(parsed.program)) {
+      warnings.push(
+        `Top-level await can not be represented in CommonJS output, requiring the CommonJS copy throws: ${fmtPath(entryPath)}`,
+      );
+      // rolldown can't convert it, the CommonJS copy only points to the ESM one
+      return {
+        code: await runFileHook(
+          "after",
+          `throw new Error(${JSON.stringify(`${basename(entryPath)} uses top-level await and can only be imported as ESM.`)});\n`,
+        ),
+        declaration,
+        warnings,
+      };
+    }
+    // Sources without imports and exports (like CommonJS `.cts` modules) are kept as is
+    if (parsed.module.hasModuleSyntax) {
+      const cjs = await toCommonJS(entryPath, code, sourcemap);
+      code = cjs.code;
+      if (cjs.map) {
+        maps.push(cjs.map);
+      }
+    }
   }
 
   if (entry.minify) {
-    const res = minify(
+    const res = minify(entryPath, code, {
+      ...(entry.minify === true ? {} : entry.minify),
+      sourcemap,
+    });
+    code = res.code;
+    if (res.map) {
+      maps.push(JSON.stringify(res.map));
+    }
+  }
+
+  code = await runFileHook("after", code);
+
+  return {
+    code,
+    declaration,
+    map: sourcemap
+      ? (JSON.parse(
+          remapping(maps.reverse(), () => null).toString(),
+        ) as EncodedSourceMap)
+      : undefined,
+    warnings,
+  };
+}
+
+/**
+ * Rewrite specifiers of imports, re-exports and `import("...")` types of a declaration
+ * (generated from the original source) like the specifiers of transformed modules.
+ */
+function rewriteDeclarationSpecifiers(
+  ctx: BuildContext,
+  entry: TransformEntry,
+  entryPath: string,
+  declaration: string,
+  format: OutputFormat,
+  resolveOptions: ResolveOptions,
+): string {
+  const parsed = oxcParser.parseSync(
+    entryPath.replace(TRANSFORM_RE, ".d.ts"),
+    declaration,
+  );
+  const requests = [
+    ...parsed.module.staticImports.map((i) => i.moduleRequest),
+    ...parsed.module.staticExports.flatMap((e) =>
+      e.entries.flatMap((entry) =>
+        entry.moduleRequest ? [entry.moduleRequest] : [],
+      ),
+    ),
+    ...collectImportTypes(parsed.program),
+  ];
+  const magicString = new MagicString(declaration);
+  const updatedStarts = new Set<number>();
+  for (const req of requests) {
+    if (updatedStarts.has(req.start)) {
+      continue;
+    }
+    updatedStarts.add(req.start);
+    const newId = resolveOutputSpecifier(
+      ctx,
+      entry,
       entryPath,
-      transformed.code,
-      entry.minify === true ? {} : entry.minify,
+      req.value,
+      format,
+      resolveOptions,
     );
-    transformed.code = res.code;
-    transformed.map = res.map;
+    if (newId) {
+      magicString.overwrite(req.start, req.end, JSON.stringify(newId));
+    }
+  }
+  return magicString.toString();
+}
+
+function collectImportTypes(
+  node: unknown,
+  requests: { value: string; start: number; end: number }[] = [],
+) {
+  if (!node || typeof node !== "object") {
+    return requests;
   }
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      collectImportTypes(child, requests);
+    }
+    return requests;
+  }
+  const { type, argument } = node as {
+    type?: string;
+    argument?: { literal?: { value: unknown; start: number; end: number } };
+  };
+  if (type === "TSImportType" && typeof argument?.literal?.value === "string") {
+    const { value, start, end } = argument.literal;
+    requests.push({ value, start, end });
+  }
+  for (const value of Object.values(node)) {
+    collectImportTypes(value, requests);
+  }
+  return requests;
+}
+
+function isIsolatedDeclarationError(error: { message: string }): boolean {
+  return error.message.includes("--isolatedDeclarations");
+}
+
+/**
+ * Convert a transformed ESM module to CommonJS, keeping all imports external.
+ */
+async function toCommonJS(
+  entryPath: string,
+  code: string,
+  sourcemap: boolean,
+): Promise<{ code: string; map?: string }> {
+  const res = await rolldown({
+    input: entryPath,
+    cwd: dirname(entryPath),
+    platform: "node",
+    logLevel: "silent",
+    external: (id) => id !== entryPath,
+    plugins: [
+      {
+        name: "obuild-cjs",
+        load: (id) => (id === entryPath ? { code, moduleType: "js" } : null),
+      },
+    ],
+  });
+  const { output } = await res.generate({
+    format: "cjs",
+    exports: "named",
+    sourcemap: sourcemap && "hidden",
+  });
+  await res.close();
+  return { code: output[0].code, map: output[0].map?.toString() };
+}
 
-  return transformed;
+function hasTopLevelAwait(node: unknown): boolean {
+  if (!node || typeof node !== "object") {
+    return false;
+  }
+  if (Array.isArray(node)) {
+    return node.some((child) => hasTopLevelAwait(child));
+  }
+  const { type } = node as { type?: string };
+  if (
+    type === "AwaitExpression" ||
+    (type === "ForOfStatement" && (node as { await?: boolean }).await)
+  ) {
+    return true;
+  }
+  if (
+    type === "FunctionDeclaration" ||
+    type === "FunctionExpression" ||
+    type === "ArrowFunctionExpression"
+  ) {
+    return false;
+  }
+  return Object.values(node).some((child) => hasTopLevelAwait(child));
 }
@@ -0,0 +1,87 @@
+import type { BuildContext } from "./types.ts";
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { resolveModulePath } from "exsolve";
+import { VERSION as rolldownVersion } from "rolldown";
+
+export interface Cache<T> {
+  get: (key: string) => Promise<T | undefined>;
+  set: (key: string, value: T) => Promise<void>;
+  stats: { hits: number; misses: number };
+}
+
+/**
+ * Create an on-disk JSON cache under `node_modules/.cache/obuild/<name>`.
+ */
+export function createCache<T>(ctx: BuildContext, name: string): Cache<T> {
+  const dir = join(ctx.pkgDir, "node_modules/.cache/obuild", name);
+  const stats = { hits: 0, misses: 0 };
+
+  return {
+    stats,
+    async get(key) {
+      const value = await readFile(join(dir, `${key}.json`), "utf8").then(
+        (contents) => JSON.parse(contents) as T,
+        () => undefined,
+      );
+      if (value === undefined) {
+        stats.misses++;
+      } else {
+        stats.hits++;
+      }
+      return value;
+    },
+    async set(key, value) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${key}.json`), JSON.stringify(value), "utf8");
+    },
+  };
+}
+
+/**
+ * Hash any JSON-serializable values into a cache key.
+ *
+ * Versions of obuild and the underlying tools are always part of the key.
+ */
+export function hashKey(...parts: unknown[]): string {
+  const hash = createHash("sha256");
+  hash.update(JSON.stringify(getToolVersions()));
+  for (const part of parts) {
+    hash.update(typeof part === "string" ? part : JSON.stringify(part) || "");
+    hash.update("\0");
+  }
+  return hash.digest("hex").slice(0, 32);
+}
+
+let _toolVersions: Record<string, string | undefined> | undefined;
+
+function getToolVersions(): Record<string, string | undefined> {
+  if (!_toolVersions) {
+    const resolveVersion = (id: string) => {
+      const path = resolveModulePath(id, { from: import.meta.url, try: true });
+      return path ? findPackageVersion(path) : undefined;
+    };
+    _toolVersions = {
+      obuild: findPackageVersion(fileURLToPath(import.meta.url)),
+      rolldown: rolldownVersion,
+      "oxc-transform": resolveVersion("oxc-transform"),
+      "oxc-minify": resolveVersion("oxc-minify"),
+    };
+  }
+  return _toolVersions;
+}
+
+function findPackageVersion(path: string): string | undefined {
+  let dir = dirname(path);
+  while (dir !== dirname(dir)) {
+    const pkgPath = join(dir, "package.json");
+    if (existsSync(pkgPath)) {
+      return JSON.parse(readFileSync(pkgPath, "utf8")).version;
+    }
+    dir = dirname(dir);
+  }
+}
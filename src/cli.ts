@@ -1,9 +1,10 @@
 #!/usr/bin/env node
 
 import { parseArgs } from "node:util";
-import { consola } from "consola";
-import { build } from "./build.ts";
+import { resolve } from "node:path";
+import { consola, LogLevels } from "consola";
 import { loadConfig } from "c12";
+import { MIN_WORKER_THREADS, resolveWorkerThreads } from "./threads.ts";
 
 import type { BuildConfig, BuildEntry } from "./types.ts";
 
@@ -20,9 +21,52 @@ const args = parseArgs({
       type: "boolean",
       default: false,
     },
+    watch: {
+      type: "boolean",
+      default: false,
+    },
+    "dry-run": {
+      type: "boolean",
+      default: false,
+    },
+    report: {
+      type: "string",
+    },
+    dump: {
+      type: "string",
+    },
+    analyze: {
+      type: "boolean",
+      default: false,
+    },
+    compare: {
+      type: "string",
+    },
+    "compare-markdown": {
+      type: "string",
+    },
+    verbose: {
+      type: "boolean",
+      default: false,
+    },
   },
 });
 
+if (args.values.verbose) {
+  consola.level = LogLevels.debug;
+}
+
+// Modules importing rolldown are loaded after raising its thread count for watch mode
+if (args.values.watch && resolveWorkerThreads() < MIN_WORKER_THREADS) {
+  process.env.TOKIO_WORKER_THREADS = String(MIN_WORKER_THREADS);
+}
+
+const { build, parseEntryShorthand, resolveBuildContext } = await import(
+  "./build.ts"
+);
+const { inferAndLogEntries } = await import("./infer.ts");
+const { watch } = await import("./watch.ts");
+
 const { config = {} } = await loadConfig<BuildConfig>({
   name: "obuild",
   configFile: "build.config",
@@ -32,17 +76,13 @@ const { config = {} } = await loadConfig<BuildConfig>({
 const rawEntries =
   args.positionals.length > 0
     ? (args.positionals as string[])
-    : config.entries || [];
-
-const entries: BuildEntry[] = rawEntries.map((entry) => {
-  if (typeof entry === "string") {
-    const [input, outDir] = entry.split(":") as [string, string | undefined];
-    return input.endsWith("/")
-      ? { type: "transform", input, outDir }
-      : { type: "bundle", input: input.split(","), outDir };
-  }
-  return entry;
-});
+    : config.entries && config.entries.length > 0
+      ? config.entries
+      : inferAndLogEntries(await resolveBuildContext({ cwd: args.values.dir }));
+
+const entries: BuildEntry[] = rawEntries.map((entry) =>
+  typeof entry === "string" ? parseEntryShorthand(entry) : entry,
+);
 
 if (args.values.stub) {
   for (const entry of entries) {
@@ -51,12 +91,53 @@ if (args.values.stub) {
 }
 
 if (rawEntries.length === 0) {
-  consola.error("No build entries specified.");
+  consola.error(
+    "No build entries specified and none could be inferred from `package.json`.",
+  );
   process.exit(1);
 }
 
-await build({
+const buildConfig: BuildConfig = {
   cwd: args.values.dir,
   ...config,
   entries,
-});
+};
+
+if (args.values["dry-run"]) {
+  if (args.values.watch) {
+    consola.error("`--dry-run` can not be used with `--watch`.");
+    process.exit(1);
+  }
+  buildConfig.dryRun = true;
+}
+
+if (args.values.report) {
+  buildConfig.report = resolve(args.values.report);
+}
+
+if (args.values.analyze) {
+  buildConfig.analyze ||= true;
+}
+
+if (args.values.compare) {
+  buildConfig.compare = {
+    baseline: resolve(args.values.compare),
+    markdown:
+      args.values["compare-markdown"] &&
+      resolve(args.values["compare-markdown"]),
+  };
+}
+
+if (args.values.dump) {
+  buildConfig.dump = resolve(args.values.dump);
+}
+
+if (args.values.watch) {
+  const watcher = await watch(buildConfig);
+  process.once("SIGINT", async () => {
+    await watcher.close();
+    process.exit(0);
+  });
+} else {
+  await build(buildConfig);
+}
@@ -0,0 +1,250 @@
+import type {
+  BuildComparison,
+  BuildReport,
+  BundleOutput,
+  BundleOutputComparison,
+  SizeBudget,
+} from "./types.ts";
+
+import { readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { colors as c } from "consola/utils";
+import prettyBytes from "pretty-bytes";
+import { fmtPath } from "./utils.ts";
+
+const SIZE_METRICS: (keyof SizeBudget)[] = [
+  "size",
+  "minSize",
+  "minGzipSize",
+  "sideEffectSize",
+];
+
+const METRIC_LABELS: Record<keyof SizeBudget, string> = {
+  size: "Size",
+  minSize: "Minified",
+  minGzipSize: "Min+gzipped",
+  sideEffectSize: "Side effects",
+};
+
+/**
+ * Read a baseline build report from a report file or a directory containing `report.json`.
+ */
+export async function readBaselineReport(path: string): Promise<BuildReport> {
+  const isDir = await stat(path).then(
+    (s) => s.isDirectory(),
+    () => false,
+  );
+  const reportPath = isDir ? join(path, "report.json") : path;
+  return readFile(reportPath, "utf8").then(
+    (contents) => JSON.parse(contents),
+    (error) => {
+      throw new Error(
+        `Could not read the baseline report \`${fmtPath(reportPath)}\`.`,
+        { cause: error },
+      );
+    },
+  );
+}
+
+/**
+ * Compare bundle outputs (sizes, exports and dependencies) and totals of a build report
+ * against a baseline report. Paths of both reports must be relative to `cwd`.
+ */
+export function compareReports(
+  baselinePath: string,
+  baseline: BuildReport,
+  report: BuildReport,
+): BuildComparison {
+  const before = collectBundleOutputs(baseline);
+  const after = collectBundleOutputs(report);
+
+  const outputs: BundleOutputComparison[] = [];
+  for (const name of new Set([...after.keys(), ...before.keys()])) {
+    const beforeOutput = before.get(name);
+    const afterOutput = after.get(name);
+    const sizes = Object.fromEntries(
+      SIZE_METRICS.map((metric) => [
+        metric,
+        { before: beforeOutput?.[metric], after: afterOutput?.[metric] },
+      ]),
+    ) as BundleOutputComparison["sizes"];
+    const exports = diffLists(beforeOutput?.exports, afterOutput?.exports);
+    const deps = diffLists(beforeOutput?.deps, afterOutput?.deps);
+    const changed =
+      SIZE_METRICS.some((m) => sizes[m].before !== sizes[m].after) ||
+      [exports, deps].some((d) => d.added.length + d.removed.length > 0);
+    outputs.push({
+      name,
+      status: beforeOutput
+        ? afterOutput
+          ? changed
+            ? "changed"
+            : "unchanged"
+          : "removed"
+        : "added",
+      sizes,
+      exports,
+      deps,
+    });
+  }
+
+  return {
+    baseline: baselinePath,
+    outputs,
+    total: {
+      size: { before: baseline.total.size, after: report.total.size },
+      files: { before: baseline.total.files, after: report.total.files },
+    },
+  };
+}
+
+/**
+ * Format a comparison for the console, with size deltas and added/removed exports and dependencies.
+ */
+export function fmtComparison(comparison: BuildComparison): string {
+  const lines = [`📊 Compared to \`${fmtPath(comparison.baseline)}\`:`];
+
+  for (const output of comparison.outputs) {
+    const name = `${c.magenta("[bundle] ")}${c.underline(output.name)}`;
+    if (output.status === "unchanged") {
+      lines.push(c.dim(`${name} (unchanged)`));
+      continue;
+    }
+    const { size, minSize, minGzipSize, sideEffectSize } = output.sizes;
+    lines.push(
+      `${name}${output.status === "changed" ? "" : c.bold(` (${output.status})`)}`,
+      c.dim(
+        `${c.bold("Size:")} ${fmtSizeChange(size, true)}, ${fmtSizeChange(minSize, true)} minified, ${fmtSizeChange(minGzipSize, true)} min+gzipped (Side effects: ${fmtSizeChange(sideEffectSize, true)})`,
+      ),
+    );
+    for (const [label, diff] of [
+      ["Exports", output.exports],
+      ["Dependencies", output.deps],
+    ] as const) {
+      const changes = [
+        ...diff.added.map((e) => c.green(`+${e}`)),
+        ...diff.removed.map((e) => c.red(`-${e}`)),
+      ];
+      if (changes.length > 0) {
+        lines.push(c.dim(`${c.bold(`${label}:`)} ${changes.join(", ")}`));
+      }
+    }
+  }
+
+  const { size, files } = comparison.total;
+  lines.push(
+    c.dim(
+      `Σ Total dist byte size: ${fmtSizeChange(size, true)} (${files.after} files${fmtDelta(files.before, files.after, true, String)})`,
+    ),
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a comparison as a markdown summary (e.g. to post on pull requests).
+ */
+export function fmtComparisonMarkdown(comparison: BuildComparison): string {
+  const rows = comparison.outputs.map((output) => {
+    const removed = output.status === "removed";
+    const cells = SIZE_METRICS.map((metric) => {
+      const cell = fmtSizeChange(output.sizes[metric]);
+      return removed ? `~~${cell}~~` : cell;
+    });
+    const status =
+      output.status === "added" || removed ? ` (${output.status})` : "";
+    return `| \`${output.name}\`${status} | ${cells.join(" | ")} |`;
+  });
+
+  const changes = comparison.outputs.flatMap((output) => {
+    const items = [
+      ...fmtListChanges("exports", output.exports),
+      ...fmtListChanges("dependencies", output.deps),
+    ];
+    return items.length > 0
+      ? [`- \`${output.name}\`: ${items.join("; ")}`]
+      : [];
+  });
+
+  const { size, files } = comparison.total;
+  return [
+    "### 📦 Build comparison",
+    "",
+    `| Output | ${SIZE_METRICS.map((m) => METRIC_LABELS[m]).join(" | ")} |`,
+    `| --- |${" ---: |".repeat(SIZE_METRICS.length)}`,
+    ...rows,
+    "",
+    `**Total:** ${fmtSizeChange(size)}, ${files.after} files${fmtDelta(files.before, files.after, false, String)}`,
+    ...(changes.length > 0
+      ? ["", "#### Exports and dependencies", "", ...changes]
+      : []),
+    "",
+  ].join("\n");
+}
+
+function collectBundleOutputs(report: BuildReport): Map<string, BundleOutput> {
+  const outputs = new Map<string, BundleOutput>();
+  for (const entry of report.entries) {
+    if (entry.type === "bundle") {
+      for (const output of entry.outputs) {
+        outputs.set(join(entry.outDir, output.name), output);
+      }
+    }
+  }
+  return outputs;
+}
+
+function diffLists(before?: string[], after?: string[]) {
+  if (!before || !after) {
+    return { added: [], removed: [] };
+  }
+  return {
+    added: after.filter((item) => !before.includes(item)),
+    removed: before.filter((item) => !after.includes(item)),
+  };
+}
+
+function fmtListChanges(
+  label: string,
+  diff: { added: string[]; removed: string[] },
+): string[] {
+  const fmtList = (items: string[]) => items.map((i) => `\`${i}\``).join(", ");
+  return [
+    ...(diff.added.length > 0 ? [`added ${label} ${fmtList(diff.added)}`] : []),
+    ...(diff.removed.length > 0
+      ? [`removed ${label} ${fmtList(diff.removed)}`]
+      : []),
+  ];
+}
+
+function fmtSizeChange(
+  change: { before?: number; after?: number },
+  colors = false,
+): string {
+  const value = change.after ?? change.before;
+  if (value === undefined) {
+    return "-";
+  }
+  return `${prettyBytes(value)}${
+    change.after === undefined
+      ? ""
+      : fmtDelta(change.before, change.after, colors, (n) =>
+          prettyBytes(n, { signed: true }),
+        )
+  }`;
+}
+
+function fmtDelta(
+  before: number | undefined,
+  after: number,
+  colors: boolean,
+  fmt: (delta: number) => string,
+): string {
+  if (before === undefined || before === after) {
+    return "";
+  }
+  const delta = fmt(after - before);
+  const text =
+    delta.startsWith("-") || delta.startsWith("+") ? delta : `+${delta}`;
+  return ` (${colors ? (after > before ? c.red(text) : c.green(text)) : text})`;
+}
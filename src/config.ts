@@ -1,5 +1,9 @@
-import type { BuildConfig } from "./types.ts";
+import type { BuildConfig, BuildPlugin } from "./types.ts";
 
 export function defineBuildConfig(config: BuildConfig): BuildConfig {
   return config;
 }
+
+export function defineBuildPlugin(plugin: BuildPlugin): BuildPlugin {
+  return plugin;
+}
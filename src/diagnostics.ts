@@ -0,0 +1,211 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, relative, resolve } from "node:path";
+import { stripVTControlCharacters } from "node:util";
+import { colors as c } from "consola/utils";
+import { fmtPath } from "./utils.ts";
+
+export interface Diagnostic {
+  message: string;
+  /** Absolute path of the file the diagnostic refers to. */
+  file?: string;
+  /** 1-based line of the location. */
+  line?: number;
+  /** 1-based column of the location. */
+  column?: number;
+  /** Code frame highlighting the location. */
+  frame?: string;
+  /** Source text the location refers to (after import rewriting and `transform:file` hooks). */
+  source?: string;
+}
+
+// Lines of context shown around the location in code frames
+const FRAME_CONTEXT = 2;
+
+/**
+ * Create a diagnostic for a span (character offsets) of a source text.
+ */
+export function createDiagnostic(
+  message: string,
+  file: string,
+  source: string,
+  span?: { start: number; end: number },
+): Diagnostic {
+  const { start = 0, end = start } = span || {};
+  const lines = source.slice(0, start).split("\n");
+  const line = lines.length;
+  const column = lines.at(-1)!.length + 1;
+  const sourceLine = source.split("\n")[line - 1];
+  const length = Math.min(end - start, sourceLine.length - column + 1);
+  return {
+    message,
+    file,
+    line,
+    column,
+    frame: codeFrame(source, line, column, length),
+    source,
+  };
+}
+
+/**
+ * Create an error listing diagnostics with their locations and code frames.
+ *
+ * The diagnostics are available as `cause` of the error (see `getDiagnostics`).
+ */
+export function createDiagnosticsError(
+  title: string,
+  diagnostics: Diagnostic[],
+): Error {
+  return new Error(
+    `${title}\n\n${diagnostics.map((d) => fmtDiagnostic(d)).join("\n\n")}`,
+    { cause: diagnostics },
+  );
+}
+
+/**
+ * Diagnostics of an error created by `createDiagnosticsError`.
+ */
+export function getDiagnostics(error: unknown): Diagnostic[] | undefined {
+  if (error instanceof Error && Array.isArray(error.cause)) {
+    return error.cause as Diagnostic[];
+  }
+}
+
+/**
+ * Combine errors of several files into a single error listing all diagnostics.
+ */
+export function combineErrors(errors: unknown[]): unknown {
+  if (errors.length === 1) {
+    return errors[0];
+  }
+  const diagnostics = errors.flatMap(
+    (error) =>
+      getDiagnostics(error) || [
+        { message: error instanceof Error ? error.message : String(error) },
+      ],
+  );
+  return createDiagnosticsError(
+    `Build failed with ${diagnostics.length} errors:`,
+    diagnostics,
+  );
+}
+
+/**
+ * Map errors of a failed rolldown build to diagnostics with code frames.
+ *
+ * Locations of rolldown errors are relative to the `cwd` of the build.
+ */
+export async function resolveRolldownDiagnostics(
+  error: unknown,
+  cwd: string,
+): Promise<Diagnostic[] | undefined> {
+  const errors = (error as { errors?: { message: string }[] })?.errors;
+  if (!Array.isArray(errors)) {
+    return;
+  }
+  return Promise.all(
+    errors.map(async (err) => {
+      const text = stripVTControlCharacters(err.message);
+      const message = text.split("\n")[0].replace(/^(\[\w+\]) Error:/, "$1");
+      const location = text.match(/\[ (.+?):(\d+):(\d+) \]/);
+      if (!location) {
+        return { message };
+      }
+      const file = resolve(cwd, location[1]);
+      const [line, column] = [Number(location[2]), Number(location[3])];
+      const source = await readFile(file, "utf8").catch(() => undefined);
+      return {
+        message,
+        file,
+        line,
+        column,
+        frame:
+          source === undefined ? undefined : codeFrame(source, line, column),
+      };
+    }),
+  );
+}
+
+/**
+ * Format the location of a diagnostic (`file:line:column`).
+ */
+export function fmtLocation(diagnostic: Diagnostic): string {
+  return [
+    diagnostic.file && fmtPath(diagnostic.file),
+    diagnostic.line,
+    diagnostic.column,
+  ]
+    .filter(Boolean)
+    .join(":");
+}
+
+export function fmtDiagnostic(diagnostic: Diagnostic): string {
+  const location = fmtLocation(diagnostic);
+  return [
+    `${location ? `${c.cyan(location)} ` : ""}${c.red(diagnostic.message)}`,
+    diagnostic.frame,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Write the sources of diagnostics to a directory (mirroring their paths relative to
+ * the package) and return the written paths.
+ */
+export async function writeDiagnosticSources(
+  dir: string,
+  pkgDir: string,
+  diagnostics: Diagnostic[],
+): Promise<string[]> {
+  const written: string[] = [];
+  for (const { file, source } of diagnostics) {
+    if (!file || source === undefined) {
+      continue;
+    }
+    let path = relative(pkgDir, file);
+    if (path.startsWith("..")) {
+      path = file.replace(/^[/\\]+|:/g, "");
+    }
+    const dumpPath = join(dir, path);
+    if (written.includes(dumpPath)) {
+      continue;
+    }
+    await mkdir(dirname(dumpPath), { recursive: true });
+    await writeFile(dumpPath, source, "utf8");
+    written.push(dumpPath);
+  }
+  return written;
+}
+
+/**
+ * Render lines around a location with a gutter and a marker under the location.
+ */
+function codeFrame(
+  source: string,
+  line: number,
+  column: number,
+  length = 1,
+): string {
+  const lines = source.split("\n");
+  if (lines.length > line && lines.at(-1) === "") {
+    lines.pop();
+  }
+  const start = Math.max(1, line - FRAME_CONTEXT);
+  const end = Math.min(lines.length, line + FRAME_CONTEXT);
+  const width = String(end).length;
+  const frame: string[] = [];
+  for (let n = start; n <= end; n++) {
+    const code = lines[n - 1].replace(/\r$/, "");
+    const gutter = `${String(n).padStart(width)} |`;
+    if (n === line) {
+      frame.push(`${c.red(">")} ${gutter} ${code}`.trimEnd());
+      const indent = code.slice(0, column - 1).replace(/[^\t]/g, " ");
+      frame.push(
+        `  ${" ".repeat(width)} | ${indent}${c.red("^".repeat(Math.max(1, length)))}`,
+      );
+    } else {
+      frame.push(c.dim(`  ${gutter} ${code}`.trimEnd()));
+    }
+  }
+  return frame.join("\n");
+}
@@ -1,9 +1,25 @@
 export { build } from "./build.ts";
+export { watch } from "./watch.ts";
 
 export type {
   BuildConfig,
+  BuildContext,
   BuildEntry,
-  // BuildContext,
+  BuildEntryReport,
+  BuildEntryResult,
+  BuildFile,
+  BuildHooks,
+  BuildPlugin,
+  BuildReport,
+  BuildResult,
   BundleEntry,
+  BundleLoaders,
+  BundleOutput,
+  BundleVariant,
+  CopyEntry,
+  CopyFileContext,
   TransformEntry,
+  TransformFileContext,
 } from "./types.ts";
+
+export type { BuildWatcher } from "./watch.ts";
@@ -0,0 +1,166 @@
+import type {
+  BuildContext,
+  BundleEntry,
+  OutputFormat,
+  TransformEntry,
+} from "./types.ts";
+
+import { existsSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { consola } from "consola";
+import { resolveModulePath } from "exsolve";
+import { DTS_RE } from "./utils.ts";
+
+// Bundle outputs of `.js` targets (ESM or CommonJS depending on package.json `type`)
+const JS_OUTPUT = {
+  entryFileNames: "[name].js",
+  chunkFileNames: "_chunks/[name]-[hash].js",
+};
+
+/**
+ * Infer build entries from package.json `exports`, `bin`, `main`, `module` and `types` fields.
+ *
+ * Each `<outDir>/*.mjs` target is mapped back to its `src/*.ts` source. `.js` targets get
+ * a separate entry writing `.js` files. Wildcard subpath targets (`./dist/runtime/*.mjs`)
+ * become transform entries.
+ */
+export function inferEntries(
+  ctx: BuildContext,
+): (BundleEntry | TransformEntry)[] {
+  const bundleEntries = new Map<string, BundleEntry>();
+  const bundleFormats = new Map<string, Set<OutputFormat>>();
+  const transformEntries = new Map<string, TransformEntry>();
+
+  const targets = collectTargets(ctx.pkg).filter(
+    (target) => target.startsWith("./") && !DTS_RE.test(target),
+  );
+
+  for (const target of targets) {
+    const [outDir, ...segments] = target.slice(2).split("/");
+    if (segments.length === 0 || outDir === "src") {
+      continue;
+    }
+
+    if (target.includes("*")) {
+      // Transform entries only write `.mjs` and `.cjs` files
+      if (target.endsWith(".js")) {
+        continue;
+      }
+      const dir = segments
+        .join("/")
+        .split("*")[0]
+        .replace(/\/[^/]*$/, "");
+      const input = "./" + join("src", dir) + "/";
+      if (isDirectory(join(ctx.pkgDir, input))) {
+        transformEntries.set(input, {
+          type: "transform",
+          input,
+          outDir: join(outDir, dir),
+        });
+      }
+      continue;
+    }
+
+    const srcInput = "./" + join("src", segments.join("/"));
+    const srcPath = resolveModulePath(srcInput.replace(/\.[cm]?js$/, ""), {
+      from: join(ctx.pkgDir, "/"),
+      extensions: [".ts", ".mts", ".cts", ".js", ".mjs", ".cjs"],
+      try: true,
+    });
+    if (!srcPath) {
+      continue;
+    }
+
+    const isJs = target.endsWith(".js");
+    const key = isJs ? `${outDir}/*.js` : outDir;
+    const entry: BundleEntry = bundleEntries.get(key) || {
+      type: "bundle",
+      input: [],
+      outDir,
+      ...(isJs && { rolldown: { output: JS_OUTPUT } }),
+    };
+    const inputs = entry.input as string[];
+    const input = srcInput.replace(/\.[cm]?js$/, "");
+    if (!inputs.includes(input)) {
+      inputs.push(input);
+    }
+    bundleEntries.set(key, entry);
+
+    const formats = bundleFormats.get(key) || new Set();
+    formats.add(resolveTargetFormat(target, ctx));
+    bundleFormats.set(key, formats);
+  }
+
+  for (const [key, formats] of bundleFormats) {
+    if (formats.has("cjs")) {
+      bundleEntries.get(key)!.format = formats.has("esm")
+        ? ["esm", "cjs"]
+        : "cjs";
+    }
+  }
+
+  // Sources already covered by a transform entry don't need to be bundled
+  const transformInputs = [...transformEntries.keys()];
+  for (const [key, entry] of bundleEntries) {
+    entry.input = (entry.input as string[]).filter(
+      (input) => !transformInputs.some((dir) => input.startsWith(dir)),
+    );
+    if (entry.input.length === 0) {
+      bundleEntries.delete(key);
+    }
+  }
+
+  return [...bundleEntries.values(), ...transformEntries.values()];
+}
+
+/**
+ * Infer build entries and print them, so they can be copied into a config.
+ */
+export function inferAndLogEntries(
+  ctx: BuildContext,
+): (BundleEntry | TransformEntry)[] {
+  const entries = inferEntries(ctx);
+  if (entries.length > 0) {
+    consola.info(
+      `Inferred build entries from \`package.json\`:\n\n${JSON.stringify(entries, null, 2)}\n`,
+    );
+  }
+  return entries;
+}
+
+function collectTargets(pkg: BuildContext["pkg"]): string[] {
+  const targets: string[] = [];
+
+  const collect = (value: unknown) => {
+    if (typeof value === "string") {
+      targets.push(value.startsWith("./") ? value : `./${value}`);
+    } else if (value && typeof value === "object") {
+      for (const v of Object.values(value)) {
+        collect(v);
+      }
+    }
+  };
+
+  collect(pkg.exports);
+  collect(pkg.bin);
+  collect(pkg.main);
+  collect(pkg.module);
+  collect(pkg.types);
+  collect(pkg.typings);
+
+  return [...new Set(targets)];
+}
+
+function resolveTargetFormat(target: string, ctx: BuildContext): OutputFormat {
+  if (target.endsWith(".cjs")) {
+    return "cjs";
+  }
+  if (target.endsWith(".js")) {
+    return ctx.pkg.type === "module" ? "esm" : "cjs";
+  }
+  return "esm";
+}
+
+function isDirectory(path: string): boolean {
+  return existsSync(path) && statSync(path).isDirectory();
+}
@@ -0,0 +1,43 @@
+import type { BuildConfig, BuildHooks } from "./types.ts";
+
+const HOOK_NAMES = Object.keys({
+  start: true,
+  end: true,
+  entries: true,
+  rolldownConfig: true,
+  rolldownOutput: true,
+  "entry:before": true,
+  "entry:after": true,
+  "transform:file": true,
+  "transform:copy": true,
+  "build:report": true,
+} satisfies Record<keyof BuildHooks, true>) as (keyof BuildHooks)[];
+
+/**
+ * Merge `hooks` and hooks of `plugins` (ordered by `enforce`) into hooks calling each of
+ * them in sequence.
+ */
+export function resolveHooks(config: BuildConfig): BuildHooks {
+  const plugins = config.plugins || [];
+  const ordered: BuildHooks[] = [
+    ...plugins.filter((plugin) => plugin.enforce === "pre"),
+    config.hooks || {},
+    ...plugins.filter((plugin) => !plugin.enforce),
+    ...plugins.filter((plugin) => plugin.enforce === "post"),
+  ];
+
+  const hooks: Record<string, (...args: unknown[]) => Promise<void>> = {};
+  for (const name of HOOK_NAMES) {
+    const fns = ordered
+      .map((h) => h[name] as ((...args: unknown[]) => unknown) | undefined)
+      .filter((fn) => fn !== undefined);
+    if (fns.length > 0) {
+      hooks[name] = async (...args) => {
+        for (const fn of fns) {
+          await fn(...args);
+        }
+      };
+    }
+  }
+  return hooks as BuildHooks;
+}
@@ -0,0 +1,12 @@
+import { availableParallelism } from "node:os";
+
+// The rolldown watcher stalls with less than 3 native worker threads (defaults to the
+// number of CPUs). The count is read once when rolldown is loaded.
+export const MIN_WORKER_THREADS = 3;
+
+/**
+ * Number of native worker threads that rolldown uses.
+ */
+export function resolveWorkerThreads(): number {
+  return Number(process.env.TOKIO_WORKER_THREADS) || availableParallelism();
+}
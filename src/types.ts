@@ -7,15 +7,21 @@ import type {
 } from "rolldown";
 
 import type { Options as DtsOptions } from "rolldown-plugin-dts";
-import type { TransformOptions } from "oxc-transform";
+import type { JsxOptions, TransformOptions } from "oxc-transform";
 import type { MinifyOptions as OXCMinifyOptions } from "oxc-minify";
 import type { ResolveOptions } from "exsolve";
 
 export interface BuildContext {
   pkgDir: string;
   pkg: { name: string } & Record<string, unknown>;
+  /** Resolved aliases (tsconfig `paths` and the `alias` config option). */
+  alias: Record<string, string>;
+  /** Files that would be written, collected instead of writing them in dry-run mode. */
+  dryRunFiles?: Map<string, string | Uint8Array>;
 }
 
+export type OutputFormat = "esm" | "cjs";
+
 export type _BuildEntry = {
   /**
    * Output directory relative to project root.
@@ -24,6 +30,55 @@ export type _BuildEntry = {
    */
   outDir?: string;
 
+  /**
+   * Output format(s).
+   *
+   * ESM is written to `.mjs`/`.d.mts` and CommonJS to `.cjs`/`.d.cts` files. `.mts` and
+   * `.cts` sources of transform entries are always written as ESM and CommonJS.
+   *
+   * Defaults to `"esm"` if not provided.
+   */
+  format?: OutputFormat | OutputFormat[];
+
+  /**
+   * Generate source maps.
+   *
+   * Use `"inline"` to append them as data URLs or `"hidden"` to write `.map` files without a reference comment.
+   *
+   * Defaults to `false` if not provided.
+   */
+  sourcemap?: boolean | "inline" | "hidden";
+
+  /**
+   * Platform the output runs on.
+   *
+   * Node.js builtin modules are kept external for `"node"`. Importing them (other than
+   * type-only imports) from `"browser"` and `"neutral"` entries fails the build.
+   *
+   * Bundles use rolldown's `"neutral"` platform and keep Node.js builtins external if not provided.
+   */
+  platform?: "node" | "browser" | "neutral";
+
+  /**
+   * Syntax target(s) to lower the output to, e.g. `"es2019"`, `"node18"` or
+   * `["chrome87", "firefox78", "safari14"]`.
+   *
+   * Lowered transform entry outputs may import helpers from `@oxc-project/runtime`.
+   *
+   * Defaults to `"esnext"` (no lowering) if not provided.
+   */
+  target?: string | string[];
+
+  /**
+   * Replace global identifiers and member expressions with constant expressions at build
+   * time (e.g. `{ "process.env.NODE_ENV": '"production"', __DEV__: "false" }`). Branches
+   * that become dead are dropped.
+   *
+   * Values are code, use `JSON.stringify` for string constants. Merged with the top-level
+   * `define` option.
+   */
+  define?: Record<string, string>;
+
   /**
    * Avoid actual build but instead link to the source files.
    */
@@ -46,11 +101,15 @@ export type BundleEntry = _BuildEntry & {
   minify?: boolean | "dce-only" | MinifyOptions;
 
   /**
-   * Options passed to rolldown.
+   * Options passed to rolldown. `output` options override the defaults of each format
+   * (e.g. `{ entryFileNames: "[name].js" }`).
    *
    * See [rolldown config options](https://rolldown.rs/reference/config-options) for more details.
    */
-  rolldown?: InputOptions & { plugins?: RolldownPluginOption[] };
+  rolldown?: InputOptions & {
+    plugins?: RolldownPluginOption[];
+    output?: OutputOptions;
+  };
 
   /**
    * Declaration generation options.
@@ -62,8 +121,68 @@ export type BundleEntry = _BuildEntry & {
    * Set to `false` to disable.
    */
   dts?: boolean | DtsOptions;
+
+  /**
+   * Maximum byte sizes of each output entry file. Exceeding any limit fails the build.
+   *
+   * Use `files` to set limits for specific output file names or globs (e.g. `{ "cli.mjs": { size: 1024 } }`).
+   */
+  budget?: SizeBudget & { files?: Record<string, SizeBudget> };
+
+  /**
+   * Built-in loaders for non-JavaScript imports: `?raw` and text imports as strings, and
+   * file assets as URLs. JSON modules are always supported with named exports.
+   *
+   * Declarations importing these modules get matching declarations.
+   *
+   * Set to `false` to disable.
+   */
+  loaders?: false | BundleLoaders;
+
+  /**
+   * Additional builds of the entry with their own constants and minification, written
+   * next to the main outputs with the variant name as suffix (e.g. `index.development.mjs`
+   * for `{ development: { define: { __DEV__: "true" } } }`).
+   *
+   * Variants don't generate declarations, the ones of the main build are shared.
+   */
+  variants?: Record<string, BundleVariant>;
 };
 
+export interface BundleLoaders {
+  /**
+   * Extensions of modules imported as text (default export string). Imports with a `?raw`
+   * query are always text.
+   *
+   * Defaults to `[".txt", ".sql", ".graphql", ".gql"]` if not provided.
+   */
+  text?: string[];
+
+  /**
+   * Extensions of modules imported as asset URLs (default export string). Assets are
+   * emitted as hashed files in `_assets/` and referenced with `new URL(..., import.meta.url)`.
+   *
+   * Defaults to common images, fonts and `.wasm` if not provided.
+   */
+  assets?: string[];
+
+  /**
+   * Inline assets smaller than this byte size as base64 data URLs. Set to `0` to always
+   * emit files.
+   *
+   * Defaults to `4096` if not provided.
+   */
+  inlineLimit?: number;
+}
+
+export interface BundleVariant {
+  /** Constants merged with (and overriding) the entry `define`. */
+  define?: Record<string, string>;
+
+  /** Minify the variant outputs. Defaults to the entry `minify`. */
+  minify?: BundleEntry["minify"];
+}
+
 export type TransformEntry = _BuildEntry & {
   type: "transform";
 
@@ -72,6 +191,25 @@ export type TransformEntry = _BuildEntry & {
    */
   input: string;
 
+  /**
+   * Glob patterns (relative to `input`) of files to build.
+   *
+   * Defaults to `["**\/*.*"]` if not provided.
+   */
+  include?: string[];
+
+  /**
+   * Glob patterns (relative to `input`) of files to leave out of the output (e.g. `["**\/*.test.ts"]`).
+   */
+  exclude?: string[];
+
+  /**
+   * Glob patterns (relative to `input`) of files to copy as is instead of transforming them.
+   *
+   * Files that can't be transformed (e.g. `.json` or `.css`) are always copied.
+   */
+  copy?: string[];
+
   /**
    * Minify the output using oxc-minify.
    *
@@ -86,15 +224,187 @@ export type TransformEntry = _BuildEntry & {
    */
   oxc?: TransformOptions;
 
+  /**
+   * JSX transform options for `.tsx` and `.jsx` modules (e.g. `{ runtime: "automatic", importSource: "preact" }`).
+   *
+   * Defaults to the automatic runtime with `react` as import source if not provided.
+   */
+  jsx?: JsxOptions;
+
+  /**
+   * How to handle TypeScript modules that can't get isolated declarations (e.g. exports
+   * without explicit type annotations):
+   *
+   * - `"strict"`: fail the build with the offending locations.
+   * - `"warn"`: report the offending locations and write the incomplete declarations.
+   * - `"fallback"`: generate declarations of these modules with the TypeScript compiler
+   *   API using the `tsconfig.json` of the package (requires `typescript`).
+   *
+   * Defaults to `"warn"` if not provided.
+   */
+  dts?: "strict" | "warn" | "fallback";
+
   /**
    * Options passed to exsolve for module resolution.
    *
    * See [exsolve](https://github.com/unjs/exsolve) for more details.
    */
   resolve?: Omit<ResolveOptions, "from">;
+
+  /**
+   * Cache transformed modules in `node_modules/.cache/obuild` and restore unchanged ones.
+   *
+   * Defaults to `true` if not provided.
+   */
+  cache?: boolean;
 };
 
-export type BuildEntry = BundleEntry | TransformEntry;
+export type CopyEntry = Pick<_BuildEntry, "outDir" | "stub"> & {
+  type: "copy";
+
+  /**
+   * Glob patterns, files or directories to copy relative to the project root.
+   *
+   * Output paths are relative to the static part of each glob (`src/schemas/**\/*.json`
+   * copies `src/schemas/a/b.json` to `a/b.json`). Directories are copied with their name.
+   */
+  input: string | string[];
+
+  /**
+   * Write all files directly into `outDir`, without their directories.
+   */
+  flatten?: boolean;
+
+  /**
+   * Rewrite output paths (relative to `outDir`, after `flatten`).
+   */
+  rename?: (path: string) => string;
+};
+
+export type BuildEntry = BundleEntry | TransformEntry | CopyEntry;
+
+export interface SizeBudget {
+  /** Maximum raw size in bytes. */
+  size?: number;
+  /** Maximum minified size in bytes. */
+  minSize?: number;
+  /** Maximum minified and gzipped size in bytes. */
+  minGzipSize?: number;
+  /** Maximum size in bytes of code kept when importing the entry without using it. */
+  sideEffectSize?: number;
+}
+
+export interface BundleOutput {
+  /** Output file name relative to the entry `outDir`. */
+  name: string;
+  exports: string[];
+  deps: string[];
+  /** Packages from `node_modules` inlined into the output. */
+  packages: string[];
+  size: number;
+  minSize: number;
+  minGzipSize: number;
+  /**
+   * Not measured for CommonJS outputs (re-bundling them always includes the interop
+   * helpers).
+   */
+  sideEffectSize?: number;
+}
+
+export interface BundleModuleAnalysis {
+  /** Module path relative to `cwd` (or to `node_modules` for packages). */
+  id: string;
+  /** Package name of modules inside `node_modules`. */
+  package?: string;
+  /** Rendered byte size of the module in the chunk. */
+  size: number;
+  /** Importer chain from an entry module to the module (why it is included). */
+  importers: string[];
+}
+
+export interface BundleChunkAnalysis {
+  /** Output path relative to `cwd`. */
+  name: string;
+  /** Whether the chunk is an entry (or a shared `_chunks/*` chunk). */
+  entry: boolean;
+  /** Byte size of the chunk. */
+  size: number;
+  /** Output paths of chunks imported by the chunk. */
+  imports: string[];
+  dynamicImports: string[];
+  /** Output paths of entry chunks (transitively) importing the chunk. */
+  entries: string[];
+  /** Source modules of the chunk, largest first. */
+  modules: BundleModuleAnalysis[];
+}
+
+export interface BundleAnalysis {
+  chunks: BundleChunkAnalysis[];
+}
+
+export type BuildEntryReport = {
+  input: string | string[];
+  outDir: string;
+  /** Build duration in milliseconds. */
+  duration: number;
+} & (
+  | { type: "bundle"; outputs: BundleOutput[] }
+  | { type: "transform" | "copy"; files: string[] }
+);
+
+export interface BuildReport {
+  entries: BuildEntryReport[];
+  total: { size: number; files: number; duration: number };
+}
+
+export interface BundleOutputComparison {
+  /** Output path relative to `cwd`. */
+  name: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+  /** Sizes in bytes of the baseline and current output. */
+  sizes: Record<keyof SizeBudget, { before?: number; after?: number }>;
+  exports: { added: string[]; removed: string[] };
+  deps: { added: string[]; removed: string[] };
+}
+
+export interface BuildComparison {
+  /** Path of the baseline report. */
+  baseline: string;
+  outputs: BundleOutputComparison[];
+  total: {
+    size: { before: number; after: number };
+    files: { before: number; after: number };
+  };
+}
+
+export interface BuildFile {
+  /** Absolute path of the written file. */
+  path: string;
+  /** Size in bytes. */
+  size: number;
+}
+
+export interface BuildEntryResult {
+  /** Resolved entry (with absolute `input` and `outDir`). */
+  entry: BuildEntry;
+  /** All files written by the entry. */
+  files: BuildFile[];
+  /** Entry files of bundle entries with their sizes, exports and dependencies. */
+  outputs?: BundleOutput[];
+  /** Warnings reported while building the entry. */
+  warnings: string[];
+  /** Build duration in milliseconds. */
+  duration: number;
+}
+
+export interface BuildResult {
+  entries: BuildEntryResult[];
+  /** Warnings of package validation (in `"warn"` mode) and the dependency audit. */
+  warnings: string[];
+  total: { size: number; files: number; duration: number };
+  /** Comparison against the baseline report (if `compare` is set). */
+  comparison?: BuildComparison;
+}
 
 export interface BuildHooks {
   start?: (ctx: BuildContext) => void | Promise<void>;
@@ -109,10 +419,192 @@ export interface BuildHooks {
     res: RolldownBuild,
     ctx: BuildContext,
   ) => void | Promise<void>;
+
+  /** Called before building an entry. The entry can be modified. */
+  "entry:before"?: (
+    entry: BuildEntry,
+    ctx: BuildContext,
+  ) => void | Promise<void>;
+
+  /** Called after an entry is built. */
+  "entry:after"?: (
+    result: BuildEntryResult,
+    ctx: BuildContext,
+  ) => void | Promise<void>;
+
+  /**
+   * Called for each module of transform entries (and each format), before oxc-transform
+   * with the source code and after it with the output code. `file.code` can be modified.
+   *
+   * Source maps don't include changes made by this hook, and transform entries are not
+   * cached if it is used.
+   */
+  "transform:file"?: (
+    file: TransformFileContext,
+    ctx: BuildContext,
+  ) => void | Promise<void>;
+
+  /**
+   * Called for each file copied as is by transform entries. `file.code` can be modified.
+   *
+   * Files are decoded as UTF-8 when this hook is used, binary files should be left unchanged.
+   */
+  "transform:copy"?: (
+    file: CopyFileContext,
+    ctx: BuildContext,
+  ) => void | Promise<void>;
+
+  /** Called with the build report (before it's written to `report`). */
+  "build:report"?: (
+    report: BuildReport,
+    ctx: BuildContext,
+  ) => void | Promise<void>;
+}
+
+export interface TransformFileContext {
+  entry: TransformEntry;
+  /** Absolute path of the source file. */
+  path: string;
+  format: OutputFormat;
+  /** `"before"` oxc-transform (source code) or `"after"` it (output code). */
+  stage: "before" | "after";
+  code: string;
+}
+
+export interface CopyFileContext {
+  entry: TransformEntry;
+  /** Absolute path of the source file. */
+  path: string;
+  code: string;
+}
+
+export interface BuildPlugin extends BuildHooks {
+  name: string;
+
+  /**
+   * Run hooks of the plugin before (`"pre"`) or after (`"post"`) other plugins.
+   *
+   * Without `enforce`, plugins run in the order of `plugins` (after the `hooks` config option).
+   */
+  enforce?: "pre" | "post";
 }
 
 export interface BuildConfig {
   cwd?: string | URL;
   entries?: (BuildEntry | string)[];
   hooks?: BuildHooks;
+
+  /**
+   * Plugins contributing build hooks.
+   */
+  plugins?: BuildPlugin[];
+
+  /**
+   * Maximum number of entries to build concurrently. Logs of each entry are buffered and
+   * printed once it is built.
+   *
+   * Set to `1` to build entries one after another (e.g. for hooks that rely on ordering).
+   *
+   * Defaults to the number of available CPUs if not provided.
+   */
+  concurrency?: number;
+
+  /**
+   * Module aliases (e.g. `{ "~": "./src" }`) applied to bundle entries, transform entry
+   * imports and entry inputs. Relative targets are resolved against `cwd`.
+   *
+   * Aliases are inferred from `compilerOptions.paths` of `tsconfig.json` and merged with this option.
+   */
+  alias?: Record<string, string>;
+
+  /**
+   * Constants replaced at build time in all entries (e.g. `{ __VERSION__: '"1.0.0"' }`).
+   *
+   * See `define` of entries.
+   */
+  define?: Record<string, string>;
+
+  /**
+   * Remove outputs before building.
+   *
+   * `true` removes the output directories of all entries, an array of globs (relative to
+   * `cwd`) only removes the matching files and `false` keeps all existing files.
+   *
+   * Defaults to `true` if not provided.
+   */
+  clean?: boolean | string[];
+
+  /**
+   * Build in memory without touching the disk, only logging the files that would be
+   * removed and written. Package validation and the dependency audit are skipped.
+   */
+  dryRun?: boolean;
+
+  /**
+   * Validate package.json `exports`, `main`, `module`, `types` and `bin` targets after build.
+   *
+   * Set to `"warn"` to only report issues or `false` to disable.
+   *
+   * Defaults to `true` (fails the build) if not provided.
+   */
+  validate?: boolean | "warn";
+
+  /**
+   * Write the sources of modules that failed to build (after import rewriting and
+   * `transform:file` hooks) to this directory relative to `cwd`.
+   */
+  dump?: string;
+
+  /**
+   * Write a JSON build report (sizes, exports and dependencies of bundles, files written by
+   * transform entries, totals and timings) to this path relative to `cwd`.
+   *
+   * Paths in the report are relative to `cwd`.
+   */
+  report?: string;
+
+  /**
+   * Analyze the composition of bundle outputs: source modules of each chunk (own code or
+   * `node_modules` packages) with their rendered sizes, the importer chain of each module
+   * and the entries sharing each `_chunks/*` chunk.
+   *
+   * Written as JSON to this path relative to `cwd` (`true` uses `analyze/bundle.json`),
+   * with a self-contained HTML treemap next to it.
+   */
+  analyze?: boolean | string;
+
+  /**
+   * Compare sizes, exports and dependencies of bundle outputs against a baseline build
+   * report (written with `report`) or a directory containing a `report.json`.
+   *
+   * Set `markdown` to also write the comparison as a markdown summary relative to `cwd`
+   * (e.g. to post it on pull requests).
+   */
+  compare?: string | { baseline: string; markdown?: string };
+
+  /**
+   * Maximum total dist byte size and file count. Exceeding any limit fails the build.
+   */
+  budget?: { size?: number; files?: number };
+
+  /**
+   * Audit dependencies of the built files against package.json: packages inlined into
+   * bundles, imports of undeclared packages and unused `dependencies`.
+   *
+   * Issues are reported as warnings. Set `strict: true` to fail the build or `false` to disable.
+   *
+   * Defaults to `true` if not provided.
+   */
+  audit?: boolean | DependencyAuditOptions;
+}
+
+export interface DependencyAuditOptions {
+  /** Fail the build on any issue. */
+  strict?: boolean;
+
+  /** Packages that are intentionally inlined into bundles. */
+  bundled?: string[];
+
+  /** Packages to skip in all checks. */
+  ignore?: string[];
 }
@@ -1,14 +1,127 @@
 import { readdirSync, statSync } from "node:fs";
-import { join, resolve } from "node:path";
+import { builtinModules } from "node:module";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
 
 import { type Plugin, rolldown } from "rolldown";
 import { minify } from "oxc-minify";
 import { gzipSync } from "node:zlib";
 
+import { consola, type ConsolaInstance, type LogObject } from "consola";
+
+import type { BuildContext, OutputFormat } from "./types.ts";
+import { makeExecutable, SHEBANG_RE } from "./builders/plugins/shebang.ts";
+
 export function fmtPath(path: string): string {
   return resolve(path).replace(process.cwd(), ".");
 }
 
+export const NODE_MODULES_RE: RegExp = /[/\\]node_modules[/\\]/;
+
+export const DTS_RE: RegExp = /\.d\.[cm]?ts$/;
+
+/**
+ * Get the package name of a bare specifier (`pkg/sub`) or a module path inside `node_modules`.
+ */
+export function getPackageName(id: string): string {
+  const segments = id.split(NODE_MODULES_RE).pop()!.split(/[/\\]/);
+  return segments[0].startsWith("@")
+    ? `${segments[0]}/${segments[1]}`
+    : segments[0];
+}
+
+/**
+ * Whether a specifier is a Node.js builtin module (e.g. `fs`, `fs/promises` or `node:fs`).
+ */
+export function isNodeBuiltin(id: string): boolean {
+  return id.startsWith("node:") || builtinModules.includes(id);
+}
+
+/**
+ * Map items with an async function, running at most `concurrency` calls at a time.
+ *
+ * Results keep the order of items. After a failure no new calls are started, and the
+ * first error is thrown once running calls have settled.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = Array.from({ length: items.length });
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (next < items.length && !failed) {
+      const i = next++;
+      try {
+        results[i] = await fn(items[i]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    () => worker(),
+  );
+  const settled = await Promise.allSettled(workers);
+  const rejected = settled.find((r) => r.status === "rejected");
+  if (rejected) {
+    throw rejected.reason;
+  }
+  return results;
+}
+
+/**
+ * Create a logger that buffers all logs until `flush()` is called.
+ */
+export function createBufferedLogger(): ConsolaInstance & {
+  flush: () => void;
+} {
+  const logs: LogObject[] = [];
+  const logger = consola.create({
+    reporters: [{ log: (logObj) => void logs.push(logObj) }],
+  });
+  return Object.assign(logger, {
+    flush() {
+      for (const logObj of logs.splice(0)) {
+        consola[logObj.type](...(logObj.args as [unknown, ...unknown[]]));
+      }
+    },
+  });
+}
+
+/**
+ * Write a dist file (and make it executable if it starts with a shebang).
+ *
+ * In dry-run mode, the file is only collected in `ctx.dryRunFiles`.
+ */
+export async function writeDistFile(
+  ctx: BuildContext,
+  path: string,
+  contents: string | Uint8Array,
+): Promise<void> {
+  if (ctx.dryRunFiles) {
+    ctx.dryRunFiles.set(path, contents);
+    return;
+  }
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, contents);
+  if (typeof contents === "string" && SHEBANG_RE.test(contents)) {
+    await makeExecutable(path);
+  }
+}
+
+export function resolveFormats(
+  format: OutputFormat | OutputFormat[] | undefined,
+): OutputFormat[] {
+  return format ? [...new Set([format].flat())] : ["esm"];
+}
+
 export function analyzeDir(dir: string | string[]): {
   size: number;
   files: number;
@@ -42,6 +155,7 @@ export function analyzeDir(dir: string | string[]): {
 export async function distSize(
   dir: string,
   entry: string,
+  files?: Map<string, string | Uint8Array>,
 ): Promise<{
   size: number;
   minSize: number;
@@ -49,7 +163,7 @@ export async function distSize(
 }> {
   const build = await rolldown({
     input: join(dir, entry),
-    plugins: [],
+    plugins: [memoryFilesPlugin(files)],
     platform: "neutral",
     external: (id) => id[0] !== "." && !id.startsWith(dir),
   });
@@ -71,6 +185,7 @@ export async function distSize(
 export async function sideEffectSize(
   dir: string,
   entry: string,
+  files?: Map<string, string | Uint8Array>,
 ): Promise<number> {
   const virtualEntry: Plugin = {
     name: "virtual-entry",
@@ -96,7 +211,7 @@ export async function sideEffectSize(
     input: "#entry",
     platform: "neutral",
     external: (id) => id[0] !== "." && !id.startsWith(dir),
-    plugins: [virtualEntry],
+    plugins: [virtualEntry, memoryFilesPlugin(files)],
   });
 
   const { output } = await build.generate({
@@ -112,3 +227,31 @@ export async function sideEffectSize(
 
   return Buffer.byteLength(output[0].code.trim());
 }
+
+/**
+ * Load dist files from memory (dry-run mode) instead of the file system.
+ */
+function memoryFilesPlugin(
+  files?: Map<string, string | Uint8Array>,
+): Plugin | undefined {
+  if (!files) {
+    return;
+  }
+  return {
+    name: "obuild-memory-files",
+    resolveId(id, importer) {
+      const path = importer && id[0] === "." ? join(dirname(importer), id) : id;
+      if (files.has(path)) {
+        return { id: path };
+      }
+    },
+    load(id) {
+      const contents = files.get(id);
+      if (contents !== undefined) {
+        return typeof contents === "string"
+          ? contents
+          : Buffer.from(contents).toString("utf8");
+      }
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import type { BuildContext } from "./types.ts";
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { globSync } from "tinyglobby";
+import { DTS_RE } from "./utils.ts";
+
+/**
+ * Validate that package.json `exports`, `main`, `module`, `types` and `bin` targets exist
+ * and that `types` conditions point to declaration files and come before `default`.
+ *
+ * Returns a list of issues (empty if the package is valid).
+ */
+export function validatePackage(ctx: BuildContext): string[] {
+  const issues: string[] = [];
+
+  const checkTarget = (path: string, target: unknown, isTypes?: boolean) => {
+    if (typeof target !== "string") {
+      return;
+    }
+    if (!targetExists(ctx.pkgDir, target)) {
+      issues.push(`\`${path}\` points to a missing file: \`${target}\``);
+    } else if (isTypes && !DTS_RE.test(target.replace(/\*+/g, ""))) {
+      issues.push(
+        `\`${path}\` should point to a declaration file: \`${target}\``,
+      );
+    }
+  };
+
+  const checkExports = (path: string, value: unknown, isTypes?: boolean) => {
+    if (typeof value === "string") {
+      checkTarget(path, value, isTypes);
+    } else if (Array.isArray(value)) {
+      for (const [i, v] of value.entries()) {
+        checkExports(`${path}[${i}]`, v, isTypes);
+      }
+    } else if (value && typeof value === "object") {
+      const keys = Object.keys(value);
+      if (
+        keys.includes("types") &&
+        keys.includes("default") &&
+        keys.indexOf("types") > keys.indexOf("default")
+      ) {
+        issues.push(`\`${path}["types"]\` should come before \`default\``);
+      }
+      for (const [key, v] of Object.entries(value)) {
+        checkExports(`${path}[${JSON.stringify(key)}]`, v, key === "types");
+      }
+    }
+  };
+
+  checkExports("exports", ctx.pkg.exports);
+  checkTarget("main", ctx.pkg.main);
+  checkTarget("module", ctx.pkg.module);
+  checkTarget("types", ctx.pkg.types, true);
+  checkTarget("typings", ctx.pkg.typings, true);
+
+  if (typeof ctx.pkg.bin === "string") {
+    checkTarget("bin", ctx.pkg.bin);
+  } else if (ctx.pkg.bin && typeof ctx.pkg.bin === "object") {
+    for (const [name, target] of Object.entries(ctx.pkg.bin)) {
+      checkTarget(`bin[${JSON.stringify(name)}]`, target);
+    }
+  }
+
+  return issues;
+}
+
+function targetExists(pkgDir: string, target: string): boolean {
+  if (!target.includes("*")) {
+    return existsSync(join(pkgDir, target));
+  }
+  // Subpath patterns (`*`) can match nested paths
+  const pattern = target.replace(/^\.\//, "").replace(/\*+/g, "**/*");
+  return globSync(pattern, { cwd: pkgDir }).length > 0;
+}
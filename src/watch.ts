@@ -0,0 +1,351 @@
+import type {
+  BuildConfig,
+  BuildContext,
+  BuildHooks,
+  BundleEntry,
+  CopyEntry,
+  TransformEntry,
+} from "./types.ts";
+
+import { watch as fsWatch } from "node:fs";
+import { rm, stat } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { consola, LogLevels } from "consola";
+import { colors as c } from "consola/utils";
+import { watch as rolldownWatch, type RolldownWatcher } from "rolldown";
+import {
+  cleanOutputs,
+  resolveBuildContext,
+  resolveBuildEntries,
+} from "./build.ts";
+import { resolveRolldownBuilds, rolldownBuild } from "./builders/bundle.ts";
+import {
+  resolveDistFiles,
+  resolveFileAction,
+  transformDir,
+  transformFile,
+} from "./builders/transform.ts";
+import { copyFiles, resolveInputBase } from "./builders/copy.ts";
+import { fmtPath } from "./utils.ts";
+import { MIN_WORKER_THREADS, resolveWorkerThreads } from "./threads.ts";
+import { resolveHooks } from "./plugins.ts";
+import {
+  createDiagnosticsError,
+  resolveRolldownDiagnostics,
+} from "./diagnostics.ts";
+
+export interface BuildWatcher {
+  close: () => Promise<void>;
+}
+
+/**
+ * Build dist/ from src/ and incrementally rebuild on changes.
+ *
+ * Bundle entries are rebuilt by a rolldown watcher, transform entries only
+ * re-transform changed files (and remove outputs of deleted ones).
+ */
+export async function watch(config: BuildConfig): Promise<BuildWatcher> {
+  if (config.dryRun) {
+    throw new Error("`dryRun` is not supported in watch mode.");
+  }
+
+  const workerThreads = resolveWorkerThreads();
+  if (workerThreads < MIN_WORKER_THREADS) {
+    throw new Error(
+      `Watch mode needs at least ${MIN_WORKER_THREADS} rolldown worker threads (found ${workerThreads}). Set the \`TOKIO_WORKER_THREADS=${MIN_WORKER_THREADS}\` environment variable before rolldown is loaded.`,
+    );
+  }
+
+  const start = Date.now();
+
+  const ctx = await resolveBuildContext(config);
+
+  consola.log(
+    `👀 Watching \`${ctx.pkg.name || "<no name>"}\` (\`${ctx.pkgDir}\`)`,
+  );
+
+  const hooks = resolveHooks(config);
+
+  await hooks.start?.(ctx);
+
+  const entries = resolveBuildEntries(config, ctx);
+
+  await hooks.entries?.(entries, ctx);
+
+  await cleanOutputs(ctx, config, entries);
+
+  const bundleEntries: BundleEntry[] = [];
+  const transformEntries: TransformEntry[] = [];
+  const copyWatchers: BuildWatcher[] = [];
+
+  for (const entry of entries) {
+    if (entry.stub) {
+      // Stubs link to the sources, nothing to watch
+      await (entry.type === "bundle"
+        ? rolldownBuild(ctx, entry, hooks)
+        : entry.type === "copy"
+          ? copyFiles(ctx, entry)
+          : transformDir(ctx, entry, hooks));
+      continue;
+    }
+    if (entry.type === "bundle") {
+      bundleEntries.push(entry);
+    } else if (entry.type === "copy") {
+      const { files } = await copyFiles(ctx, entry);
+      copyWatchers.push(watchCopy(ctx, entry, hooks, files));
+    } else {
+      await transformDir(ctx, entry, hooks);
+      transformEntries.push(entry);
+    }
+  }
+
+  const rolldownWatcher =
+    bundleEntries.length > 0
+      ? await watchBundles(ctx, bundleEntries, hooks)
+      : undefined;
+
+  const transformWatchers = transformEntries.map((entry) =>
+    watchTransform(ctx, entry, hooks),
+  );
+
+  await hooks.end?.(ctx);
+
+  consola.log(
+    `\n✅ obuild initial build finished in ${Date.now() - start}ms, watching for changes...`,
+  );
+
+  return {
+    close: async () => {
+      for (const fileWatcher of [...transformWatchers, ...copyWatchers]) {
+        await fileWatcher.close();
+      }
+      await rolldownWatcher?.close();
+    },
+  };
+}
+
+/**
+ * Start a rolldown watcher for bundle entries and resolve after the initial build.
+ */
+async function watchBundles(
+  ctx: BuildContext,
+  entries: BundleEntry[],
+  hooks: BuildHooks,
+): Promise<RolldownWatcher> {
+  const watchOptions = [];
+  for (const entry of entries) {
+    watchOptions.push(...(await resolveRolldownBuilds(ctx, entry, hooks)));
+  }
+
+  const watcher = rolldownWatch(watchOptions);
+
+  let initial = true;
+  let cycleStart = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    watcher.on("event", async (event) => {
+      try {
+        switch (event.code) {
+          case "START": {
+            cycleStart = Date.now();
+            if (!initial) {
+              await hooks.start?.(ctx);
+            }
+            break;
+          }
+          case "BUNDLE_END": {
+            await event.result.close();
+            consola.log(
+              `${c.magenta("[bundle] ")}${event.output.map((o) => c.underline(fmtPath(o))).join(", ")} ${c.dim(`built in ${event.duration}ms`)}`,
+            );
+            break;
+          }
+          case "ERROR": {
+            await event.result.close();
+            const diagnostics = await resolveRolldownDiagnostics(
+              event.error,
+              ctx.pkgDir,
+            );
+            const error = diagnostics
+              ? createDiagnosticsError("Errors while bundling:", diagnostics)
+              : event.error;
+            if (initial) {
+              initial = false;
+              reject(error);
+              return;
+            }
+            consola.error(error);
+            break;
+          }
+          case "END": {
+            if (initial) {
+              initial = false;
+              resolve();
+              return;
+            }
+            await hooks.end?.(ctx);
+            consola.log(`🔁 Rebuilt in ${Date.now() - cycleStart}ms`);
+            break;
+          }
+        }
+      } catch (error) {
+        // Keep watching after errors (e.g. of hooks)
+        consola.error(error);
+      }
+    });
+  }).catch(async (error) => {
+    await watcher.close();
+    throw error;
+  });
+
+  return watcher;
+}
+
+/**
+ * Watch the input directory of a transform entry and re-transform changed files.
+ */
+function watchTransform(
+  ctx: BuildContext,
+  entry: TransformEntry,
+  hooks: BuildHooks,
+): BuildWatcher {
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let queue = Promise.resolve();
+
+  const rebuild = async (entryNames: string[]) => {
+    const start = Date.now();
+    await runHook(() => hooks.start?.(ctx));
+
+    let updated = 0;
+    let removed = 0;
+    for (const entryName of entryNames) {
+      const isFile = await stat(join(entry.input, entryName)).then(
+        (s) => s.isFile(),
+        () => false,
+      );
+      try {
+        if (isFile) {
+          await transformFile(ctx, entry, entryName, hooks);
+          updated++;
+        } else {
+          for (const distFile of resolveDistFiles(entry, entryName)) {
+            await rm(distFile, { force: true });
+          }
+          removed++;
+        }
+      } catch (error) {
+        consola.error(error);
+      }
+    }
+
+    await runHook(() => hooks.end?.(ctx));
+
+    consola.log(
+      `🔁 ${c.magenta("[transform] ")}${c.underline(fmtPath(entry.outDir!) + "/")} ${c.dim(`${updated} updated, ${removed} removed in ${Date.now() - start}ms`)}`,
+    );
+  };
+
+  const fsWatcher = fsWatch(
+    entry.input,
+    { recursive: true },
+    (_event, fileName) => {
+      // Same files as the `**/*.*` glob of `transformDir`
+      if (
+        !fileName ||
+        !/^[^.][^/\\]*\.[^/\\]*$/.test(basename(fileName)) ||
+        resolveFileAction(entry, fileName) === "skip"
+      ) {
+        return;
+      }
+      changed.add(fileName);
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const entryNames = [...changed];
+        changed.clear();
+        queue = queue
+          .then(() => rebuild(entryNames))
+          .catch((error) => consola.error(error));
+      }, 50);
+    },
+  );
+
+  return {
+    close: async () => {
+      fsWatcher.close();
+      clearTimeout(timer);
+      await queue;
+    },
+  };
+}
+
+/**
+ * Watch the inputs of a copy entry, copy all files again on changes and remove outputs
+ * of deleted files.
+ */
+function watchCopy(
+  ctx: BuildContext,
+  entry: CopyEntry,
+  hooks: BuildHooks,
+  files: string[],
+): BuildWatcher {
+  let distFiles = files;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let queue = Promise.resolve();
+
+  // Only log the summary of each copy
+  const logger = consola.create({ level: LogLevels.warn });
+
+  const rebuild = async () => {
+    const start = Date.now();
+    await runHook(() => hooks.start?.(ctx));
+
+    try {
+      const { files } = await copyFiles(ctx, entry, logger);
+      const removed = distFiles.filter((f) => !files.includes(f));
+      for (const distFile of removed) {
+        await rm(distFile, { force: true });
+      }
+      distFiles = files;
+      consola.log(
+        `🔁 ${c.magenta("[copy] ")}${c.underline(fmtPath(entry.outDir!) + "/")} ${c.dim(`${files.length} copied, ${removed.length} removed in ${Date.now() - start}ms`)}`,
+      );
+    } catch (error) {
+      consola.error(error);
+    }
+
+    await runHook(() => hooks.end?.(ctx));
+  };
+
+  const fsWatchers = [entry.input].flat().map((input) =>
+    fsWatch(resolveInputBase(input), { recursive: true }, () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        queue = queue
+          .then(() => rebuild())
+          .catch((error) => consola.error(error));
+      }, 50);
+    }),
+  );
+
+  return {
+    close: async () => {
+      for (const fsWatcher of fsWatchers) {
+        fsWatcher.close();
+      }
+      clearTimeout(timer);
+      await queue;
+    },
+  };
+}
+
+/**
+ * Call a hook during a rebuild and log its errors instead of stopping the watcher.
+ */
+async function runHook(fn: () => void | Promise<void>): Promise<void> {
+  try {
+    await fn();
+  } catch (error) {
+    consola.error(error);
+  }
+}
@@ -0,0 +1,9 @@
+import { test } from "#runtime/test"; // package.json `imports` alias
+export { tsModule } from "./ts-module.js"; // NodeNext-style `.js` specifier
+
+export function loadTest(): Promise<{ test: () => string }> {
+  // @ts-expect-error - Dynamic import without extension
+  return import("./test");
+}
+
+export const testResult: string = test();
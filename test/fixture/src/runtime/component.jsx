@@ -0,0 +1,5 @@
+const h = (tag, props, ...children) => ({ tag, props, children });
+
+export function Greeting(props) {
+  return <p class="greeting">Hello {props.name}!</p>;
+}
@@ -0,0 +1,3 @@
+const ctsModule = (): string => "cts-module";
+
+module.exports = { ctsModule };
@@ -3,5 +3,6 @@ export { test } from "./test.ts"; // Explicitly import the test file with .ts ex
 // @ts-expect-error - JS test file
 export { jsModule } from "./js-module"; // Without extension
 export { tsModule } from "./ts-module"; // Without extension
+export { mtsModule } from "./mts-module.mts";
 
 export default "default export";
@@ -0,0 +1,3 @@
+export function mtsModule(): string {
+  return "mts-module";
+}
@@ -1,7 +1,43 @@
-import { describe, test, expect, beforeAll } from "vitest";
+import { describe, test, expect, beforeAll, vi } from "vitest";
 
-import { build } from "../src/build.ts";
-import { readdir, readFile, rm, stat } from "node:fs/promises";
+import { build, parseEntryShorthand } from "../src/build.ts";
+import { inferEntries } from "../src/infer.ts";
+import { validatePackage } from "../src/validate.ts";
+import { auditDependencies } from "../src/audit.ts";
+import { applyAlias, resolveAliases } from "../src/alias.ts";
+import { resolveFileAction } from "../src/builders/transform.ts";
+import { fmtPath, mapConcurrent } from "../src/utils.ts";
+import {
+  compareReports,
+  fmtComparison,
+  fmtComparisonMarkdown,
+} from "../src/compare.ts";
+import type {
+  BuildReport,
+  BundleAnalysis,
+  TransformEntry,
+} from "../src/types.ts";
+import { createCache, hashKey } from "../src/cache.ts";
+import {
+  checkBundleBudget,
+  checkTotalBudget,
+  fmtBudgetViolation,
+} from "../src/budget.ts";
+import {
+  readdir,
+  readFile,
+  readlink,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { basename, join, relative } from "node:path";
+import { createRequire } from "node:module";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { consola, LogLevels } from "consola";
+import { stripVTControlCharacters } from "node:util";
+
+import { createTempPackage } from "./utils.ts";
 
 const fixtureDir = new URL("fixture/", import.meta.url);
 const distDir = new URL("dist/", fixtureDir);
@@ -22,6 +58,87 @@ describe("obuild", () => {
     });
   });
 
+  test("infer entries from package.json", async () => {
+    const pkg = await import(new URL("package.json", fixtureDir).href, {
+      with: { type: "json" },
+    }).then((r) => r.default);
+    const entries = inferEntries({
+      pkg,
+      pkgDir: fileURLToPath(fixtureDir),
+      alias: {},
+    });
+    expect(entries).toMatchInlineSnapshot(`
+      [
+        {
+          "input": [
+            "./src/index",
+            "./src/cli",
+          ],
+          "outDir": "dist",
+          "type": "bundle",
+        },
+        {
+          "input": "./src/runtime/",
+          "outDir": "dist/runtime",
+          "type": "transform",
+        },
+      ]
+    `);
+  });
+
+  test("infer entries from .js targets", async () => {
+    const pkg = {
+      name: "infer-js",
+      type: "module",
+      main: "./dist/index.js",
+      types: "./dist/index.d.ts",
+      exports: {
+        ".": {
+          types: "./dist/index.d.ts",
+          import: "./dist/index.js",
+          require: "./dist/index.cjs",
+        },
+      },
+      bin: "./dist/cli.js",
+    };
+    const { dir } = await createTempPackage("infer", {
+      "package.json": pkg,
+      "src/index.ts": "export const a = 1;\n",
+      "src/cli.ts": "console.log('cli');\n",
+    });
+
+    expect(inferEntries({ pkg, pkgDir: dir, alias: {} }))
+      .toMatchInlineSnapshot(`
+          [
+            {
+              "input": [
+                "./src/index",
+                "./src/cli",
+              ],
+              "outDir": "dist",
+              "rolldown": {
+                "output": {
+                  "chunkFileNames": "_chunks/[name]-[hash].js",
+                  "entryFileNames": "[name].js",
+                },
+              },
+              "type": "bundle",
+            },
+            {
+              "format": "cjs",
+              "input": [
+                "./src/index",
+              ],
+              "outDir": "dist",
+              "type": "bundle",
+            },
+          ]
+        `);
+
+    await build({ cwd: dir });
+    expect(validatePackage({ pkg, pkgDir: dir, alias: {} })).toEqual([]);
+  });
+
   test("dist files match expected", async () => {
     const distFiles = await readdir(distDir, { recursive: true }).then((r) =>
       r.sort(),
@@ -33,9 +150,17 @@ describe("obuild", () => {
         "index.d.mts",
         "index.mjs",
         "runtime",
+        "runtime/README.md",
+        "runtime/aliases.d.mts",
+        "runtime/aliases.mjs",
+        "runtime/component.mjs",
+        "runtime/cts-module.cjs",
+        "runtime/cts-module.d.cts",
         "runtime/index.d.mts",
         "runtime/index.mjs",
-        "runtime/js-module.js",
+        "runtime/js-module.mjs",
+        "runtime/mts-module.d.mts",
+        "runtime/mts-module.mjs",
         "runtime/test.d.mts",
         "runtime/test.mjs",
         "runtime/ts-module.d.mts",
@@ -57,6 +182,47 @@ describe("obuild", () => {
     expect(distUtils.test).instanceOf(Function);
   });
 
+  test("validate package.json targets", () => {
+    const issues = validatePackage({
+      pkgDir: fileURLToPath(fixtureDir),
+      alias: {},
+      pkg: {
+        name: "test-fixture",
+        exports: {
+          ".": { default: "./dist/index.mjs", types: "./dist/index.d.mts" },
+          "./utils": { types: "./dist/utils.mjs", default: "./dist/utils.mjs" },
+          "./runtime/*": "./dist/runtime/*.mjs",
+          "./missing/*": "./dist/missing/*.mjs",
+        },
+        types: "./dist/index.d.ts",
+        bin: { cli: "./dist/cli.mjs", other: "./dist/other.mjs" },
+      },
+    });
+    expect(issues).toMatchInlineSnapshot(`
+      [
+        "\`exports["."]["types"]\` should come before \`default\`",
+        "\`exports["./utils"]["types"]\` should point to a declaration file: \`./dist/utils.mjs\`",
+        "\`exports["./missing/*"]\` points to a missing file: \`./dist/missing/*.mjs\`",
+        "\`types\` points to a missing file: \`./dist/index.d.ts\`",
+        "\`bin["other"]\` points to a missing file: \`./dist/other.mjs\`",
+      ]
+    `);
+  });
+
+  test("runtime import specifiers are rewritten", async () => {
+    const aliases = await readFile(
+      new URL("runtime/aliases.mjs", distDir),
+      "utf8",
+    );
+    expect(aliases.match(/(?:from |import\()"[^"]+"/g)).toMatchInlineSnapshot(`
+      [
+        "from "./test.mjs"",
+        "from "./ts-module.mjs"",
+        "import("./test.mjs"",
+      ]
+    `);
+  });
+
   test("runtime .dts files use .mjs extension", async () => {
     const runtimeIndexMts = await readFile(
       new URL("runtime/index.d.mts", distDir),
@@ -70,4 +236,1353 @@ describe("obuild", () => {
     const stats = await stat(cliPath);
     expect(stats.mode & 0o111).toBe(0o111); // Check if executable
   });
+
+  test("build fixture with formats, source maps and report", async () => {
+    const outDir = new URL("formats/", distDir);
+    const result = await build({
+      cwd: fixtureDir,
+      entries: [
+        {
+          type: "bundle",
+          input: ["src/index", "src/cli"],
+          outDir: "dist/formats",
+          format: ["esm", "cjs"],
+        },
+        {
+          type: "transform",
+          input: "src/runtime",
+          outDir: "dist/formats/runtime",
+          format: ["esm", "cjs"],
+          sourcemap: true,
+          jsx: { runtime: "classic", pragma: "h" },
+          exclude: ["**/*.md"],
+        },
+        { type: "bundle", input: "~/utils.ts", outDir: "dist/formats" },
+      ],
+      alias: { "~": "./src" },
+      report: "dist/formats/report.json",
+    });
+
+    // Result
+    const relativeFiles = (i: number) =>
+      result.entries[i].files.map((f) =>
+        relative(fileURLToPath(outDir), f.path),
+      );
+    expect(result.entries.map((e) => e.entry.type)).toEqual([
+      "bundle",
+      "transform",
+      "bundle",
+    ]);
+    expect(relativeFiles(2)).toMatchInlineSnapshot(`
+      [
+        "utils.d.mts",
+        "utils.mjs",
+      ]
+    `);
+    expect(relativeFiles(1)).toContain("runtime/test.d.cts");
+    expect(relativeFiles(1)).not.toContain("runtime/README.md");
+    expect(result.entries[0].outputs?.map((o) => o.name).sort()).toEqual([
+      "cli.cjs",
+      "cli.mjs",
+      "index.cjs",
+      "index.mjs",
+    ]);
+    expect(result.entries.every((e) => e.files.every((f) => f.size > 0))).toBe(
+      true,
+    );
+    expect(result.warnings).toEqual([]);
+
+    // CommonJS entries
+    const require = createRequire(outDir);
+    const distIndex = require("./index.cjs");
+    expect(distIndex.test).instanceOf(Function);
+    expect(distIndex.default).toBe("default export");
+    const distRuntimeTest = require("./runtime/test.cjs");
+    expect(distRuntimeTest.test).instanceOf(Function);
+    expect(
+      await readFile(new URL("runtime/index.d.cts", outDir), "utf8"),
+    ).contain("./test.cjs");
+
+    // JSX
+    const distComponent = await import(
+      new URL("runtime/component.mjs", outDir).href
+    );
+    expect(distComponent.Greeting({ name: "obuild" })).toMatchInlineSnapshot(`
+      {
+        "children": [
+          "Hello ",
+          "obuild",
+          "!",
+        ],
+        "props": {
+          "class": "greeting",
+        },
+        "tag": "p",
+      }
+    `);
+
+    // Source maps
+    const runtimeTest = await readFile(
+      new URL("runtime/test.mjs", outDir),
+      "utf8",
+    );
+    expect(runtimeTest).contain("//# sourceMappingURL=test.mjs.map");
+    const runtimeTestMap = JSON.parse(
+      await readFile(new URL("runtime/test.mjs.map", outDir), "utf8"),
+    );
+    expect(runtimeTestMap.file).toBe("test.mjs");
+    expect(runtimeTestMap.sources).toEqual(["../../../src/runtime/test.ts"]);
+    expect(runtimeTestMap.sourcesContent[0]).contain("export function test()");
+
+    // Report
+    const report: BuildReport = JSON.parse(
+      await readFile(new URL("report.json", outDir), "utf8"),
+    );
+    expect(report.entries.map((e) => [e.type, e.input, e.outDir]))
+      .toMatchInlineSnapshot(`
+      [
+        [
+          "bundle",
+          [
+            "src/index",
+            "src/cli",
+          ],
+          "dist/formats",
+        ],
+        [
+          "transform",
+          "src/runtime",
+          "dist/formats/runtime",
+        ],
+        [
+          "bundle",
+          "src/utils.ts",
+          "dist/formats",
+        ],
+      ]
+    `);
+    const [bundleReport, transformReport] = report.entries;
+    expect(
+      bundleReport.type === "bundle" &&
+        bundleReport.outputs.find((o) => o.name === "index.mjs"),
+    ).toMatchObject({
+      name: "index.mjs",
+      exports: ["default", "test"],
+      deps: [],
+      size: expect.any(Number),
+      minSize: expect.any(Number),
+      minGzipSize: expect.any(Number),
+      sideEffectSize: 0,
+    });
+    expect(
+      transformReport.type === "transform" && transformReport.files,
+    ).toContain("dist/formats/runtime/test.mjs");
+    expect(report.total.files).toBeGreaterThan(0);
+    expect(report.total.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  test("resolve aliases from tsconfig", async () => {
+    const { dir } = await createTempPackage("alias", {
+      "tsconfig.base.json": {
+        compilerOptions: {
+          baseUrl: ".",
+          paths: { "@app/*": ["./src/app/*"], "~utils": ["./src/utils.ts"] },
+        },
+      },
+      "tsconfig.json": { extends: "./tsconfig.base.json" },
+    });
+    const aliases = resolveAliases(dir, { "~": "./src", react: "preact" });
+
+    expect(
+      Object.fromEntries(
+        Object.entries(aliases).map(([k, v]) => [k, v.replace(dir, "<dir>")]),
+      ),
+    ).toMatchInlineSnapshot(`
+      {
+        "@app": "<dir>/src/app",
+        "react": "preact",
+        "~": "<dir>/src",
+        "~utils": "<dir>/src/utils.ts",
+      }
+    `);
+    expect(applyAlias(aliases, "@app/components/button")).toBe(
+      join(dir, "src/app/components/button"),
+    );
+    expect(applyAlias(aliases, "@application")).toBeUndefined();
+  });
+
+  test("transform .mts and .cts sources", async () => {
+    const pkg = await createTempPackage("cts");
+    const outDir = join(pkg.dir, "dist");
+    await pkg.build({
+      cwd: fixtureDir,
+      entries: [
+        {
+          type: "transform",
+          input: "src/runtime",
+          outDir,
+          include: ["index.ts", "*-module.*", "test.ts"],
+        },
+      ],
+    });
+    expect((await readdir(outDir)).sort()).toMatchInlineSnapshot(`
+        [
+          "cts-module.cjs",
+          "cts-module.d.cts",
+          "index.d.mts",
+          "index.mjs",
+          "js-module.mjs",
+          "mts-module.d.mts",
+          "mts-module.mjs",
+          "test.d.mts",
+          "test.mjs",
+          "ts-module.d.mts",
+          "ts-module.mjs",
+        ]
+      `);
+
+    const index = await readFile(join(outDir, "index.mjs"), "utf8");
+    expect(index).toContain(`from "./mts-module.mjs"`);
+    const distIndex = await import(
+      pathToFileURL(join(outDir, "index.mjs")).href
+    );
+    expect(distIndex.mtsModule()).toBe("mts-module");
+
+    const require = createRequire(outDir);
+    const distCts = require(join(outDir, "cts-module.cjs"));
+    expect(distCts.ctsModule()).toBe("cts-module");
+  });
+
+  test("top-level await in commonjs output", async () => {
+    const pkg = await createTempPackage("tla", {
+      "src/runtime/tla.ts":
+        "export const x: number = await Promise.resolve(1);\n",
+    });
+    const result = await pkg.build({
+      entries: [
+        {
+          type: "transform",
+          input: "src/runtime",
+          outDir: "dist/runtime",
+          format: ["esm", "cjs"],
+        },
+      ],
+    });
+    expect(result.entries[0].warnings).toEqual([
+      `Top-level await can not be represented in CommonJS output, requiring the CommonJS copy throws: ${fmtPath(join(pkg.dir, "src/runtime/tla.ts"))}`,
+    ]);
+
+    const distDir = join(pkg.dir, "dist/runtime");
+    expect((await readdir(distDir)).sort()).toEqual([
+      "tla.cjs",
+      "tla.d.cts",
+      "tla.d.mts",
+      "tla.mjs",
+    ]);
+    const { x } = await import(pathToFileURL(join(distDir, "tla.mjs")).href);
+    expect(x).toBe(1);
+    expect(() => createRequire(distDir)(join(distDir, "tla.cjs"))).toThrow(
+      "tla.ts uses top-level await and can only be imported as ESM.",
+    );
+  });
+
+  test("plugins", async () => {
+    const pkg = await createTempPackage("plugins");
+    const outDir = join(pkg.dir, "dist");
+    const calls: string[] = [];
+    await pkg.build({
+      cwd: fixtureDir,
+      entries: [
+        {
+          type: "transform",
+          input: "src/runtime",
+          outDir: join(outDir, "runtime"),
+          include: ["test.ts", "README.md"],
+        },
+        { type: "bundle", input: "src/utils.ts", outDir },
+      ],
+      concurrency: 1,
+      hooks: {
+        "entry:before": (entry) => void calls.push(`hooks:${entry.type}`),
+      },
+      plugins: [
+        {
+          name: "banner",
+          enforce: "post",
+          "transform:file": (file) => {
+            if (file.stage === "after") {
+              file.code = `/* banner */\n${file.code}`;
+            }
+          },
+          "entry:before": (entry) => void calls.push(`banner:${entry.type}`),
+        },
+        {
+          name: "replace",
+          "transform:file": (file) => {
+            if (file.stage === "before") {
+              file.code = file.code.replace('"test"', '"replaced"');
+            }
+          },
+          "transform:copy": (file) => {
+            file.code = file.code.toUpperCase();
+          },
+          "entry:after": (result) =>
+            void calls.push(`replace:${result.files.length} files`),
+          "build:report": (report) =>
+            void calls.push(`report:${report.entries.length} entries`),
+        },
+        {
+          name: "pre",
+          enforce: "pre",
+          "entry:before": (entry) => void calls.push(`pre:${entry.type}`),
+        },
+      ],
+    });
+
+    expect(calls).toMatchInlineSnapshot(`
+        [
+          "pre:transform",
+          "hooks:transform",
+          "banner:transform",
+          "replace:3 files",
+          "pre:bundle",
+          "hooks:bundle",
+          "banner:bundle",
+          "replace:2 files",
+          "report:2 entries",
+        ]
+      `);
+    expect(await readFile(join(outDir, "runtime/test.mjs"), "utf8"))
+      .toMatchInlineSnapshot(`
+        "/* banner */
+        export function test() {
+        	return "replaced";
+        }
+        "
+      `);
+    expect(await readFile(join(outDir, "runtime/README.md"), "utf8")).toContain(
+      "# RUNTIME",
+    );
+  });
+
+  test("dry run", async () => {
+    const pkg = await createTempPackage("dry-run", { "dist/stale.mjs": "" });
+    const outDir = join(pkg.dir, "dist");
+    const result = await pkg.build({
+      cwd: fixtureDir,
+      entries: [
+        {
+          type: "transform",
+          input: "src/runtime",
+          outDir: join(outDir, "runtime"),
+          include: ["test.ts"],
+        },
+        { type: "bundle", input: "src/utils.ts", outDir, dts: false },
+      ],
+      dryRun: true,
+      report: join(outDir, "report.json"),
+    });
+
+    expect(await readdir(outDir)).toEqual(["stale.mjs"]);
+    expect(
+      result.entries.flatMap((entry) =>
+        entry.files.map((f) => relative(outDir, f.path)),
+      ),
+    ).toMatchInlineSnapshot(`
+        [
+          "runtime/test.mjs",
+          "runtime/test.d.mts",
+          "utils.mjs",
+        ]
+      `);
+    expect(result.entries[1].outputs![0].size).toBeGreaterThan(0);
+    expect(result.total.files).toBe(3);
+  });
+
+  test("clean globs", async () => {
+    const pkg = await createTempPackage("clean", {
+      "dist/stale.mjs": "",
+      "dist/LICENSE": "",
+    });
+    const outDir = join(pkg.dir, "dist");
+    const entries = [
+      { type: "bundle" as const, input: "src/utils.ts", outDir, dts: false },
+    ];
+
+    await pkg.build({
+      cwd: fixtureDir,
+      entries,
+      clean: [join(outDir, "*.mjs")],
+    });
+    expect((await readdir(outDir)).sort()).toEqual(["LICENSE", "utils.mjs"]);
+
+    await writeFile(join(outDir, "stale.mjs"), "", "utf8");
+    await pkg.build({ cwd: fixtureDir, entries, clean: false });
+    expect((await readdir(outDir)).sort()).toEqual([
+      "LICENSE",
+      "stale.mjs",
+      "utils.mjs",
+    ]);
+  });
+
+  test("transform declarations modes", async () => {
+    const pkg = await createTempPackage("dts", {
+      "tsconfig.json": {
+        compilerOptions: { strict: true, moduleResolution: "bundler" },
+      },
+      "src/base.ts":
+        "export interface Options { name: string }\nexport function createOptions(name: string): Options { return { name }; }\n",
+      "src/index.ts":
+        'import { createOptions } from "./base";\nexport const options = createOptions("test");\n',
+    });
+    const buildDts = (dts: TransformEntry["dts"]) =>
+      pkg.build({ entries: [{ type: "transform", input: "src", dts }] });
+
+    const { entries } = await buildDts("warn");
+    expect(entries[0].warnings.map((w) => w.replaceAll(pkg.dir, "<pkg>")))
+      .toMatchInlineSnapshot(`
+        [
+          "Declarations of <pkg>/src/index.ts are incomplete (use \`dts: "fallback"\` to generate them with TypeScript):
+          <pkg>/src/index.ts:2:14 TS9010: Variable must have an explicit type annotation with --isolatedDeclarations.",
+        ]
+      `);
+
+    await expect(buildDts("strict")).rejects.toThrow(/index\.ts:2:14 TS9010/);
+
+    await buildDts("fallback");
+    expect(await readFile(join(pkg.dir, "dist/index.d.mts"), "utf8"))
+      .toMatchInlineSnapshot(`
+        "export declare const options: import("./base.mjs").Options;
+        "
+      `);
+  });
+
+  test("error diagnostics", async () => {
+    const pkg = await createTempPackage("errors", {
+      "src/runtime/a.ts":
+        "export const a = 1;\nexport const b = ;\nexport const c = 3;\n",
+      "src/runtime/b.ts": "export function b() {\n  return <div>;\n}\n",
+      "src/index.ts": 'export { missing } from "./missing";\n',
+    });
+    const fmtError = (error: Error) =>
+      stripVTControlCharacters(error.message).replaceAll(pkg.dir, "<pkg>");
+
+    const transformError = await pkg
+      .build({
+        entries: [{ type: "transform", input: "src/runtime" }],
+        dump: "dump",
+      })
+      .catch((error) => error);
+    expect(fmtError(transformError)).toMatchInlineSnapshot(`
+        "Build failed with 2 errors:
+
+        <pkg>/src/runtime/a.ts:2:18 Unexpected token
+          1 | export const a = 1;
+        > 2 | export const b = ;
+            |                  ^
+          3 | export const c = 3;
+
+        <pkg>/src/runtime/b.ts:2:15 Unexpected token
+          1 | export function b() {
+        > 2 |   return <div>;
+            |               ^
+          3 | }"
+      `);
+    expect(await readdir(join(pkg.dir, "dump/src/runtime"))).toEqual([
+      "a.ts",
+      "b.ts",
+    ]);
+
+    const bundleError = await pkg
+      .build({
+        entries: [{ type: "bundle", input: "src/index.ts" }],
+      })
+      .catch((error) => error);
+    expect(fmtError(bundleError)).toMatchInlineSnapshot(`
+        "Errors while bundling <pkg>/src/index.ts:
+
+        <pkg>/src/index.ts:1:25 [UNRESOLVED_IMPORT] Could not resolve './missing' in src/index.ts
+        > 1 | export { missing } from "./missing";
+            |                         ^"
+      `);
+  });
+
+  test("bundle analysis", async () => {
+    const entrySource = (name: string) =>
+      `import { shared } from "./shared";\nexport const ${name} = () => shared();\n`;
+    const pkg = await createTempPackage("analyze", {
+      "node_modules/tiny/package.json": {
+        name: "tiny",
+        type: "module",
+        main: "index.js",
+      },
+      "node_modules/tiny/index.js": "export const tiny = () => 'tiny';\n",
+      "src/shared.ts":
+        'import { tiny } from "tiny";\nexport const shared = () => tiny();\n',
+      "src/a.ts": entrySource("a"),
+      "src/b.ts": entrySource("b"),
+    });
+
+    await pkg.build({
+      entries: [
+        { type: "bundle", input: ["src/a.ts", "src/b.ts"], dts: false },
+      ],
+      analyze: true,
+    });
+
+    const analysis: BundleAnalysis = JSON.parse(
+      await readFile(join(pkg.dir, "analyze/bundle.json"), "utf8"),
+    );
+    expect(
+      analysis.chunks.map((chunk) => ({
+        ...chunk,
+        name: chunk.name.replace(/-[\w-]+\.mjs$/, "-[hash].mjs"),
+        imports: chunk.imports.map((i) =>
+          i.replace(/-[\w-]+\.mjs$/, "-[hash].mjs"),
+        ),
+        size: chunk.size > 0,
+        modules: chunk.modules.map((m) => ({ ...m, size: m.size > 0 })),
+      })),
+    ).toMatchInlineSnapshot(`
+        [
+          {
+            "dynamicImports": [],
+            "entries": [
+              "dist/a.mjs",
+              "dist/b.mjs",
+            ],
+            "entry": false,
+            "imports": [],
+            "modules": [
+              {
+                "id": "tiny/index.js",
+                "importers": [
+                  "src/a.ts",
+                  "src/shared.ts",
+                  "tiny/index.js",
+                ],
+                "package": "tiny",
+                "size": true,
+              },
+              {
+                "id": "src/shared.ts",
+                "importers": [
+                  "src/a.ts",
+                  "src/shared.ts",
+                ],
+                "size": true,
+              },
+            ],
+            "name": "dist/_chunks/shared-[hash].mjs",
+            "size": true,
+          },
+          {
+            "dynamicImports": [],
+            "entries": [],
+            "entry": true,
+            "imports": [
+              "dist/_chunks/shared-[hash].mjs",
+            ],
+            "modules": [
+              {
+                "id": "src/a.ts",
+                "importers": [
+                  "src/a.ts",
+                ],
+                "size": true,
+              },
+            ],
+            "name": "dist/a.mjs",
+            "size": true,
+          },
+          {
+            "dynamicImports": [],
+            "entries": [],
+            "entry": true,
+            "imports": [
+              "dist/_chunks/shared-[hash].mjs",
+            ],
+            "modules": [
+              {
+                "id": "src/b.ts",
+                "importers": [
+                  "src/b.ts",
+                ],
+                "size": true,
+              },
+            ],
+            "name": "dist/b.mjs",
+            "size": true,
+          },
+        ]
+      `);
+    const html = await readFile(join(pkg.dir, "analyze/bundle.html"), "utf8");
+    expect(html).toContain("src/shared.ts");
+    expect(html).not.toMatch(/<(script|link)[^>]+(src|href)=/);
+  });
+
+  test("define and variants", async () => {
+    const source = [
+      "export function info(): string {",
+      '  if (process.env.NODE_ENV !== "production") {',
+      '    console.warn("dev mode");',
+      "  }",
+      '  return __DEV__ ? "dev" : __VERSION__;',
+      "}",
+      "",
+    ].join("\n");
+    const pkg = await createTempPackage("define", {
+      "src/index.ts": source,
+      "src/lib/info.ts": source,
+    });
+
+    const result = await pkg.build({
+      define: { __VERSION__: JSON.stringify("1.0.0") },
+      entries: [
+        {
+          type: "bundle",
+          input: "src/index.ts",
+          define: {
+            "process.env.NODE_ENV": JSON.stringify("production"),
+            __DEV__: "false",
+          },
+          variants: {
+            development: {
+              define: {
+                "process.env.NODE_ENV": JSON.stringify("development"),
+                __DEV__: "true",
+              },
+            },
+          },
+        },
+        {
+          type: "transform",
+          input: "src/lib/",
+          outDir: "dist/lib",
+          define: {
+            "process.env.NODE_ENV": JSON.stringify("production"),
+            __DEV__: "false",
+          },
+        },
+      ],
+    });
+
+    expect(
+      result.entries.flatMap((entry) =>
+        entry.files.map((file) => relative(pkg.dir, file.path)),
+      ),
+    ).toMatchInlineSnapshot(`
+        [
+          "dist/index.d.mts",
+          "dist/index.mjs",
+          "dist/index.development.mjs",
+          "dist/lib/info.mjs",
+          "dist/lib/info.d.mts",
+        ]
+      `);
+    const read = (path: string) => readFile(join(pkg.dir, path), "utf8");
+    expect(await read("dist/index.mjs")).toMatchInlineSnapshot(`
+        "//#region src/index.ts
+        function info() {
+        	return "1.0.0";
+        }
+
+        //#endregion
+        export { info };"
+      `);
+    expect(await read("dist/index.development.mjs")).toMatchInlineSnapshot(`
+        "//#region src/index.ts
+        function info() {
+        	console.warn("dev mode");
+        	return "dev";
+        }
+
+        //#endregion
+        export { info };"
+      `);
+    expect(await read("dist/lib/info.mjs")).toMatchInlineSnapshot(`
+        "export function info() {
+        	return "1.0.0";
+        }
+        "
+      `);
+  });
+
+  test("platform and target", async () => {
+    const pkg = await createTempPackage("platform", {
+      "src/index.ts":
+        "export const get = (a?: { x?: number }): number => a?.x ?? 1;\n",
+      "src/lib/get.ts":
+        'import type { Stats } from "node:fs";\nexport const get = (a?: Stats): number => a?.size ?? 1;\n',
+      "src/node.ts":
+        'import { readFileSync } from "node:fs";\nexport const read = (): string => readFileSync("x", "utf8");\n',
+    });
+
+    await pkg.build({
+      entries: [
+        {
+          type: "bundle",
+          input: "src/index.ts",
+          platform: "browser",
+          target: "es2019",
+        },
+        { type: "bundle", input: "src/node.ts", platform: "node" },
+        {
+          type: "transform",
+          input: "src/lib/",
+          outDir: "dist/lib",
+          platform: "neutral",
+          target: ["es2019"],
+        },
+      ],
+    });
+
+    const read = (path: string) => readFile(join(pkg.dir, path), "utf8");
+    expect(await read("dist/index.mjs")).toMatchInlineSnapshot(`
+        "//#region src/index.ts
+        const get = (a) => {
+        	var _a$x;
+        	return (_a$x = a === null || a === void 0 ? void 0 : a.x) !== null && _a$x !== void 0 ? _a$x : 1;
+        };
+
+        //#endregion
+        export { get };"
+      `);
+    expect(await read("dist/node.mjs")).toContain('from "node:fs"');
+    expect(await read("dist/lib/get.mjs")).toMatchInlineSnapshot(`
+        "export const get = (a) => {
+        	var _a$size;
+        	return (_a$size = a === null || a === void 0 ? void 0 : a.size) !== null && _a$size !== void 0 ? _a$size : 1;
+        };
+        "
+      `);
+
+    const bundleError = await pkg
+      .build({
+        entries: [
+          { type: "bundle", input: "src/node.ts", platform: "browser" },
+        ],
+      })
+      .catch((error) => error);
+    expect(
+      stripVTControlCharacters(bundleError.message).replaceAll(
+        pkg.dir,
+        "<pkg>",
+      ),
+    ).toMatchInlineSnapshot(`
+        "Errors while bundling <pkg>/src/node.ts:
+
+        Node.js builtin \`node:fs\` can't be imported by \`browser\` entries (imported by <pkg>/src/node.ts). Set \`platform: "node"\` to keep it external."
+      `);
+
+    await writeFile(
+      join(pkg.dir, "src/lib/node.ts"),
+      'export { readFileSync } from "node:fs";\n',
+    );
+    const transformError = await pkg
+      .build({
+        entries: [
+          {
+            type: "transform",
+            input: "src/lib/",
+            outDir: "dist/lib",
+            platform: "neutral",
+          },
+        ],
+      })
+      .catch((error) => error);
+    expect(
+      stripVTControlCharacters(transformError.message).replaceAll(
+        pkg.dir,
+        "<pkg>",
+      ),
+    ).toMatchInlineSnapshot(`
+        "Errors while transforming <pkg>/src/lib/node.ts:
+
+        <pkg>/src/lib/node.ts:1:30 Node.js builtin \`node:fs\` can't be imported by \`neutral\` entries. Set \`platform: "node"\` to keep it external.
+        > 1 | export { readFileSync } from "node:fs";
+            |                              ^^^^^^^^^"
+      `);
+  });
+
+  test("copy entries", async () => {
+    const wasm = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0xff, 0xfe, 0x80]);
+    const pkg = await createTempPackage("copy", {
+      "src/schemas/v1/config.json": "{}\n",
+      "src/schemas/v1/notes.md": "# Notes\n",
+      "assets/module.wasm": wasm,
+    });
+
+    expect(parseEntryShorthand("src/schemas/**/*.json:dist/schemas"))
+      .toMatchInlineSnapshot(`
+        {
+          "input": "src/schemas/**/*.json",
+          "outDir": "dist/schemas",
+          "type": "copy",
+        }
+      `);
+
+    const result = await pkg.build({
+      entries: [
+        "src/schemas/**/*.json:dist/schemas",
+        { type: "copy", input: "assets", outDir: "dist" },
+        {
+          type: "copy",
+          input: ["src/schemas/**/*.md"],
+          outDir: "dist/docs",
+          flatten: true,
+          rename: (path) => path.toUpperCase(),
+        },
+      ],
+    });
+
+    expect(
+      result.entries.map((entry) => [
+        entry.entry.type,
+        ...entry.files.map((file) => relative(pkg.dir, file.path)),
+      ]),
+    ).toMatchInlineSnapshot(`
+        [
+          [
+            "copy",
+            "dist/schemas/v1/config.json",
+          ],
+          [
+            "copy",
+            "dist/assets/module.wasm",
+          ],
+          [
+            "copy",
+            "dist/docs/NOTES.MD",
+          ],
+        ]
+      `);
+    expect(result.total).toMatchObject({ size: 18 });
+    expect(
+      new Uint8Array(await readFile(join(pkg.dir, "dist/assets/module.wasm"))),
+    ).toEqual(wasm);
+
+    await pkg.build({
+      entries: [{ type: "copy", input: "assets/*.wasm", stub: true }],
+    });
+    expect(await readlink(join(pkg.dir, "dist/module.wasm"))).toBe(
+      join(pkg.dir, "assets/module.wasm"),
+    );
+  });
+
+  test("copy binary files of transform entries", async () => {
+    const wasm = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0xff, 0xfe, 0x80]);
+    const pkg = await createTempPackage("transform-copy", {
+      "src/runtime/index.ts": "export {};\n",
+      "src/runtime/module.wasm": wasm,
+    });
+
+    await pkg.build({
+      entries: [{ type: "transform", input: "src/runtime", outDir: "dist" }],
+    });
+    expect(
+      new Uint8Array(await readFile(join(pkg.dir, "dist/module.wasm"))),
+    ).toEqual(wasm);
+  });
+
+  test("bundle loaders", async () => {
+    const pkg = await createTempPackage("loaders", {
+      "src/query.sql": "select 1;\n",
+      "src/schema.graphql": "type Query { a: Int }\n",
+      "src/notes.md": "# Notes\n",
+      "src/data.json":
+        '{ "name": "data", "tags": ["a", 1], "default": true }\n',
+      "src/icon.svg": "<svg/>",
+      "src/image.png": new Uint8Array(5000),
+      "src/index.ts": [
+        'import query from "./query.sql";',
+        'import notes from "./notes.md?raw";',
+        'import icon from "./icon.svg";',
+        'import image from "./image.png";',
+        'export { default as schema } from "./schema.graphql";',
+        'export { name, tags } from "./data.json";',
+        "export const sql: string = query;",
+        "export const md: string = notes;",
+        "export const urls: string[] = [icon, image];",
+        "",
+      ].join("\n"),
+    });
+
+    const result = await pkg.build({
+      entries: [{ type: "bundle", input: "src/index.ts" }],
+    });
+
+    expect(
+      result.entries[0].files.map((file) =>
+        relative(pkg.dir, file.path).replace(/-[\w-]+\.png$/, "-[hash].png"),
+      ),
+    ).toMatchInlineSnapshot(`
+        [
+          "dist/index.d.mts",
+          "dist/index.mjs",
+          "dist/_assets/image-[hash].png",
+        ]
+      `);
+    const read = (path: string) => readFile(join(pkg.dir, path), "utf8");
+    expect(
+      (await read("dist/index.mjs")).replace(/-[\w-]+\.png/, "-[hash].png"),
+    ).toMatchInlineSnapshot(`
+        "//#region src/query.sql
+        var query_default = "select 1;\\n";
+
+        //#endregion
+        //#region src/notes.md?raw
+        var notes_default = "# Notes\\n";
+
+        //#endregion
+        //#region src/icon.svg
+        var icon_default = "data:image/svg+xml;base64,PHN2Zy8+";
+
+        //#endregion
+        //#region src/image.png
+        var image_default = new URL("./_assets/image-[hash].png", import.meta.url).href;
+
+        //#endregion
+        //#region src/schema.graphql
+        var schema_default = "type Query { a: Int }\\n";
+
+        //#endregion
+        //#region src/data.json
+        var name = "data";
+        var tags = ["a", 1];
+
+        //#endregion
+        //#region src/index.ts
+        const sql = query_default;
+        const md = notes_default;
+        const urls = [icon_default, image_default];
+
+        //#endregion
+        export { md, name, schema_default as schema, sql, tags, urls };"
+      `);
+    expect(await read("dist/index.d.mts")).toMatchInlineSnapshot(`
+        "//#region \\0obuild-loaders:string.d.ts
+        declare const _default: string;
+        //#endregion
+        //#region \\0obuild-loaders:json:src/data.json.d.ts
+        declare const name: string;
+        declare const tags: (string | number)[];
+        //#endregion
+        //#region src/index.d.ts
+        declare const sql: string;
+        declare const md: string;
+        declare const urls: string[];
+        //#endregion
+        export { md, name, _default as schema, sql, tags, urls };"
+      `);
+
+    const mod = await import(join(pkg.dir, "dist/index.mjs"));
+    expect(fileURLToPath(mod.urls[1])).toBe(
+      result.entries[0].files.find((f) => f.path.endsWith(".png"))!.path,
+    );
+  });
+
+  test("map entries concurrently", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const results = await mapConcurrent([30, 10, 20, 0], 2, async (ms) => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return ms * 2;
+    });
+    expect(results).toEqual([60, 20, 40, 0]);
+    expect(maxRunning).toBe(2);
+
+    const started: number[] = [];
+    await expect(
+      mapConcurrent([1, 2, 3], 1, async (n) => {
+        started.push(n);
+        if (n === 2) {
+          throw new Error(`Failed ${n}`);
+        }
+      }),
+    ).rejects.toThrow("Failed 2");
+    expect(started).toEqual([1, 2]);
+  });
+
+  test("build entries concurrently", async () => {
+    const source =
+      "export const load = (id: string): Promise<unknown> => import(id);\n";
+    const pkg = await createTempPackage("concurrency", {
+      "src/a/fast.ts": source,
+      "src/a/slow.ts": source,
+      "src/b/index.ts": source,
+    });
+    const logs: string[] = [];
+    const capture = (message: unknown) =>
+      void logs.push(stripVTControlCharacters(String(message)));
+    const logSpy = vi.spyOn(consola, "log").mockImplementation(capture);
+    const warnSpy = vi.spyOn(consola, "warn").mockImplementation(capture);
+    // Buffered loggers inherit the level (warnings only in tests)
+    const level = consola.level;
+    consola.level = LogLevels.info;
+    try {
+      // Source files finishing in the order a/fast.ts, b/index.ts, a/slow.ts
+      const delays: Record<string, number> = { "slow.ts": 100, "index.ts": 30 };
+
+      const buildEntries = async (concurrency: number) => {
+        logs.length = 0;
+        const calls: string[] = [];
+        await pkg.build({
+          entries: ["a", "b"].map((name) => ({
+            type: "transform",
+            input: `src/${name}`,
+            outDir: `dist/${name}`,
+          })),
+          concurrency,
+          hooks: {
+            "entry:before": (entry) =>
+              void calls.push(
+                `before:${relative(pkg.dir, String(entry.input))}`,
+              ),
+            "entry:after": ({ entry }) =>
+              void calls.push(
+                `after:${relative(pkg.dir, String(entry.input))}`,
+              ),
+            "transform:file": async (file) => {
+              const delay =
+                file.stage === "after" && delays[basename(file.path)];
+              if (delay) {
+                await new Promise((resolve) => setTimeout(resolve, delay));
+              }
+            },
+          },
+        });
+        // Entry of each log (warnings of the sources and the entry summary)
+        const logEntries = logs.flatMap(
+          (log) => log.match(/(?:src|dist)\/([ab])\//)?.[1] || [],
+        );
+        return { calls, logEntries };
+      };
+
+      const sequential = await buildEntries(1);
+      expect(sequential.calls).toEqual([
+        "before:src/a",
+        "after:src/a",
+        "before:src/b",
+        "after:src/b",
+      ]);
+      expect(sequential.logEntries).toEqual(["a", "a", "a", "b", "b"]);
+
+      const concurrent = await buildEntries(2);
+      expect(concurrent.calls.slice(0, 2)).toEqual([
+        "before:src/a",
+        "before:src/b",
+      ]);
+      // Logs of each entry are printed in one piece once it is built
+      expect(concurrent.logEntries).toEqual(["b", "b", "a", "a", "a"]);
+    } finally {
+      consola.level = level;
+      logSpy.mockRestore();
+      warnSpy.mockRestore();
+    }
+  });
+
+  test("transform file filters", () => {
+    const entry: TransformEntry = {
+      type: "transform",
+      input: "src/runtime",
+      include: ["**/*.ts", "**/*.json", "templates/**"],
+      exclude: ["**/*.test.ts"],
+      copy: ["templates/**"],
+    };
+    const files = [
+      "index.ts",
+      "index.test.ts",
+      "data.json",
+      "README.md",
+      "templates/app.ts",
+    ];
+    expect(
+      Object.fromEntries(files.map((f) => [f, resolveFileAction(entry, f)])),
+    ).toMatchInlineSnapshot(`
+      {
+        "README.md": "skip",
+        "data.json": "copy",
+        "index.test.ts": "skip",
+        "index.ts": "transform",
+        "templates/app.ts": "copy",
+      }
+    `);
+  });
+
+  test("transform cache", async () => {
+    const { dir: pkgDir } = await createTempPackage("cache");
+    const cache = createCache<{ code: string }>(
+      { pkgDir, pkg: { name: "test" }, alias: {} },
+      "transform",
+    );
+    const key = hashKey("src/index.ts", "export const a = 1;");
+    expect(hashKey("src/index.ts", "export const a = 2;")).not.toBe(key);
+
+    expect(await cache.get(key)).toBeUndefined();
+    await cache.set(key, { code: "export const a = 1;" });
+    expect(await cache.get(key)).toEqual({ code: "export const a = 1;" });
+    expect(cache.stats).toEqual({ hits: 1, misses: 1 });
+  });
+
+  test("transform cache restores unchanged modules", async () => {
+    const pkg = await createTempPackage("cache", {
+      "src/runtime/a.ts": "export const a: number = __A__ + 1;\n",
+      "src/runtime/b.ts": "export const b: string = 'b';\n",
+    });
+    const logSpy = vi.spyOn(consola, "log").mockImplementation(() => {});
+    try {
+      const buildRuntime = async (
+        options: Pick<TransformEntry, "minify" | "define"> = {},
+      ) => {
+        logSpy.mockClear();
+        await pkg.build({
+          entries: [
+            {
+              type: "transform",
+              input: "src/runtime",
+              outDir: "dist/runtime",
+              ...options,
+            },
+          ],
+        });
+        const stats = logSpy.mock.calls
+          .map((args) => stripVTControlCharacters(String(args[0])))
+          .join("\n")
+          .match(/cache: (\d+) hits, (\d+) misses/);
+        const outputs = await Promise.all(
+          ["a.mjs", "b.mjs"].map((name) =>
+            readFile(join(pkg.dir, "dist/runtime", name), "utf8"),
+          ),
+        );
+        return {
+          hits: Number(stats?.[1]),
+          misses: Number(stats?.[2]),
+          outputs,
+        };
+      };
+
+      const first = await buildRuntime();
+      expect(first).toMatchObject({ hits: 0, misses: 2 });
+
+      const second = await buildRuntime();
+      expect(second).toMatchObject({ hits: 2, misses: 0 });
+      expect(second.outputs).toEqual(first.outputs);
+
+      const minified = await buildRuntime({ minify: true });
+      expect(minified).toMatchObject({ hits: 0, misses: 2 });
+
+      const defined = await buildRuntime({ define: { __A__: "41" } });
+      expect(defined).toMatchObject({ hits: 0, misses: 2 });
+      expect(defined.outputs[0]).toContain("42");
+    } finally {
+      logSpy.mockRestore();
+    }
+  });
+
+  test("size budgets", () => {
+    const output = {
+      name: "cli.mjs",
+      exports: [],
+      deps: [],
+      packages: [],
+      size: 2000,
+      minSize: 1000,
+      minGzipSize: 500,
+      sideEffectSize: 100,
+    };
+    const violations = [
+      ...checkBundleBudget(
+        {
+          minSize: 2000,
+          sideEffectSize: 0,
+          files: { "*.mjs": { size: 1000 } },
+        },
+        output,
+      ),
+      ...checkBundleBudget({ files: { "index.mjs": { size: 1 } } }, output),
+      ...checkTotalBudget({ size: 10_000, files: 1 }, { size: 5000, files: 3 }),
+    ];
+    expect(violations.map((v) => fmtBudgetViolation(v))).toMatchInlineSnapshot(`
+      [
+        "cli.mjs: side effects size 100 B exceeds budget of 0 B",
+        "cli.mjs: size 2 kB exceeds budget of 1 kB",
+        "total: file count 3 exceeds budget of 1",
+      ]
+    `);
+  });
+
+  test("size budgets of commonjs outputs", async () => {
+    const pkg = await createTempPackage("budget", {
+      "src/index.ts": "export const a: number = 1;\n",
+    });
+    const result = await pkg.build({
+      entries: [
+        {
+          type: "bundle",
+          input: "src/index.ts",
+          format: ["esm", "cjs"],
+          dts: false,
+          budget: { sideEffectSize: 0 },
+        },
+      ],
+    });
+    const outputs = result.entries[0].outputs!;
+    expect(outputs.map((o) => [o.name, o.sideEffectSize])).toEqual([
+      ["index.mjs", 0],
+      ["index.cjs", undefined],
+    ]);
+  });
+
+  test("compare reports", () => {
+    const output = {
+      name: "index.mjs",
+      exports: ["a", "b"],
+      deps: ["defu"],
+      packages: [],
+      size: 2000,
+      minSize: 1000,
+      minGzipSize: 500,
+      sideEffectSize: 0,
+    };
+    const baseline: BuildReport = {
+      entries: [
+        {
+          type: "bundle",
+          input: ["src/index.ts", "src/cli.ts", "src/old.ts"],
+          outDir: "dist",
+          duration: 100,
+          outputs: [
+            output,
+            { ...output, name: "cli.mjs" },
+            { ...output, name: "old.mjs" },
+          ],
+        },
+      ],
+      total: { size: 6000, files: 3, duration: 100 },
+    };
+    const report: BuildReport = {
+      entries: [
+        {
+          type: "bundle",
+          input: ["src/index.ts", "src/cli.ts", "src/new.ts"],
+          outDir: "./dist",
+          duration: 100,
+          outputs: [
+            {
+              ...output,
+              exports: ["a", "c"],
+              deps: ["defu", "pathe"],
+              size: 42_000,
+              minGzipSize: 450,
+            },
+            { ...output, name: "cli.mjs" },
+            { ...output, name: "new.mjs" },
+          ],
+        },
+      ],
+      total: { size: 46_000, files: 3, duration: 100 },
+    };
+
+    const comparison = compareReports("report.json", baseline, report);
+    expect(comparison.outputs.map((o) => `${o.name}: ${o.status}`))
+      .toMatchInlineSnapshot(`
+      [
+        "dist/index.mjs: changed",
+        "dist/cli.mjs: unchanged",
+        "dist/new.mjs: added",
+        "dist/old.mjs: removed",
+      ]
+    `);
+    expect(stripVTControlCharacters(fmtComparison(comparison)))
+      .toMatchInlineSnapshot(`
+      "📊 Compared to \`./report.json\`:
+      [bundle] dist/index.mjs
+      Size: 42 kB (+40 kB), 1 kB minified, 450 B (-50 B) min+gzipped (Side effects: 0 B)
+      Exports: +c, -b
+      Dependencies: +pathe
+      [bundle] dist/cli.mjs (unchanged)
+      [bundle] dist/new.mjs (added)
+      Size: 2 kB, 1 kB minified, 500 B min+gzipped (Side effects: 0 B)
+      [bundle] dist/old.mjs (removed)
+      Size: 2 kB, 1 kB minified, 500 B min+gzipped (Side effects: 0 B)
+      Σ Total dist byte size: 46 kB (+40 kB) (3 files)"
+    `);
+    expect(fmtComparisonMarkdown(comparison)).toMatchInlineSnapshot(`
+      "### 📦 Build comparison
+
+      | Output | Size | Minified | Min+gzipped | Side effects |
+      | --- | ---: | ---: | ---: | ---: |
+      | \`dist/index.mjs\` | 42 kB (+40 kB) | 1 kB | 450 B (-50 B) | 0 B |
+      | \`dist/cli.mjs\` | 2 kB | 1 kB | 500 B | 0 B |
+      | \`dist/new.mjs\` (added) | 2 kB | 1 kB | 500 B | 0 B |
+      | \`dist/old.mjs\` (removed) | ~~2 kB~~ | ~~1 kB~~ | ~~500 B~~ | ~~0 B~~ |
+
+      **Total:** 46 kB (+40 kB), 3 files
+
+      #### Exports and dependencies
+
+      - \`dist/index.mjs\`: added exports \`c\`; removed exports \`b\`; added dependencies \`pathe\`
+      "
+    `);
+  });
+
+  test("dependency audit", async () => {
+    const { dir } = await createTempPackage("audit", {
+      "a.mjs": `import "pkg-a/sub"; export * from "@scope/pkg-b"; import("./local.mjs"); import("pkg-c"); import("node:fs")`,
+      "a.cjs": `require("pkg-d"); require("fs")`,
+    });
+
+    const output = {
+      name: "index.mjs",
+      exports: [],
+      deps: ["[Node.js]", "peer-pkg/sub"],
+      packages: ["dev-pkg", "bundled-pkg"],
+      size: 0,
+      minSize: 0,
+      minGzipSize: 0,
+      sideEffectSize: 0,
+    };
+    const issues = await auditDependencies(
+      {
+        pkgDir: dir,
+        alias: {},
+        pkg: {
+          name: "test-audit",
+          dependencies: { "pkg-a": "*", unused: "*" },
+          peerDependencies: { "peer-pkg": "*" },
+          devDependencies: { "dev-pkg": "*", "bundled-pkg": "*" },
+        },
+      },
+      [
+        {
+          type: "bundle",
+          input: "src/index.ts",
+          outDir: dir,
+          outputs: [output],
+          duration: 0,
+        },
+        {
+          type: "transform",
+          input: "src/runtime",
+          outDir: dir,
+          files: [join(dir, "a.mjs"), join(dir, "a.cjs")],
+          duration: 0,
+        },
+      ],
+      { bundled: ["bundled-pkg"], ignore: ["pkg-c"] },
+    );
+
+    expect(issues.map((issue) => issue.replaceAll(dir, "<dir>")))
+      .toMatchInlineSnapshot(`
+        [
+          "\`@scope/pkg-b\` is imported by \`<dir>/a.mjs\` but not declared in \`package.json\`",
+          "\`pkg-d\` is imported by \`<dir>/a.cjs\` but not declared in \`package.json\`",
+          "\`dev-pkg\` is inlined into \`<dir>/index.mjs\` (add it to \`dependencies\` or \`audit.bundled\`)",
+          "\`unused\` is listed in \`dependencies\` but not imported by any built file",
+        ]
+      `);
+  });
 });
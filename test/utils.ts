@@ -0,0 +1,50 @@
+import { onTestFinished } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { build } from "../src/build.ts";
+import type { BuildConfig, BuildResult } from "../src/types.ts";
+
+export interface TempPackage {
+  /** Absolute path of the package directory. */
+  dir: string;
+  /**
+   * Build the package (package validation and the dependency audit are disabled unless
+   * set in `config`).
+   */
+  build: (config: BuildConfig) => Promise<BuildResult>;
+}
+
+/**
+ * Create a package in a temporary directory, removed when the current test finishes.
+ *
+ * `files` maps relative paths to their contents (objects are written as JSON). A
+ * `package.json` is added unless given.
+ */
+export async function createTempPackage(
+  name: string,
+  files: Record<string, string | Uint8Array | object> = {},
+): Promise<TempPackage> {
+  const dir = await mkdtemp(join(tmpdir(), `obuild-${name}-`));
+  onTestFinished(() => rm(dir, { recursive: true, force: true }));
+
+  for (const [path, contents] of Object.entries({
+    "package.json": { name },
+    ...files,
+  })) {
+    await mkdir(dirname(join(dir, path)), { recursive: true });
+    await writeFile(
+      join(dir, path),
+      typeof contents === "string" || contents instanceof Uint8Array
+        ? contents
+        : JSON.stringify(contents),
+    );
+  }
+
+  return {
+    dir,
+    build: (config) =>
+      build({ cwd: dir, validate: false, audit: false, ...config }),
+  };
+}
@@ -0,0 +1,119 @@
+import { describe, test, expect, vi } from "vitest";
+
+vi.hoisted(() => {
+  // Like the CLI does in watch mode (rolldown reads it when loaded)
+  process.env.TOKIO_WORKER_THREADS ||= "3";
+});
+
+import { watch } from "../src/watch.ts";
+import { consola } from "consola";
+import { readFile, rm, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+
+import { createTempPackage } from "./utils.ts";
+
+describe("obuild watch", () => {
+  test("rebuilds changed files", async () => {
+    const { dir: pkgDir } = await createTempPackage("watch", {
+      "src/index.ts": `export const v = 1;\n`,
+      "src/runtime/a.ts": `export const a = 1;\n`,
+    });
+
+    const hooks = { start: vi.fn(), end: vi.fn() };
+    const watcher = await watch({
+      cwd: pkgDir,
+      entries: [
+        { type: "bundle", input: "src/index.ts", dts: false },
+        { type: "transform", input: "src/runtime", outDir: "dist/runtime" },
+      ],
+      hooks,
+    });
+
+    try {
+      const distFile = (p: string) => join(pkgDir, "dist", p);
+      expect(await readFile(distFile("index.mjs"), "utf8")).toContain("1");
+      expect(existsSync(distFile("runtime/a.mjs"))).toBe(true);
+      expect(hooks.start).toHaveBeenCalledTimes(1);
+      expect(hooks.end).toHaveBeenCalledTimes(1);
+
+      await writeFile(
+        join(pkgDir, "src/runtime/b.ts"),
+        `export const b = 2;\n`,
+      );
+      await rm(join(pkgDir, "src/runtime/a.ts"));
+      await vi.waitFor(
+        () => {
+          expect(existsSync(distFile("runtime/b.mjs"))).toBe(true);
+          expect(existsSync(distFile("runtime/a.mjs"))).toBe(false);
+          expect(existsSync(distFile("runtime/a.d.mts"))).toBe(false);
+        },
+        { timeout: 5000 },
+      );
+
+      await writeFile(join(pkgDir, "src/index.ts"), `export const v = 42;\n`);
+      await vi.waitFor(
+        async () => {
+          expect(await readFile(distFile("index.mjs"), "utf8")).toContain("42");
+        },
+        { timeout: 5000 },
+      );
+      expect(hooks.start.mock.calls.length).toBeGreaterThan(1);
+    } finally {
+      await watcher.close();
+    }
+  });
+
+  test("fails with too few worker threads", async () => {
+    vi.stubEnv("TOKIO_WORKER_THREADS", "1");
+    try {
+      await expect(watch({ entries: [] })).rejects.toThrow(
+        "Watch mode needs at least 3 rolldown worker threads (found 1).",
+      );
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  test("keeps watching after hook errors", async () => {
+    const { dir: pkgDir } = await createTempPackage("watch", {
+      "src/runtime/a.ts": `export const a = 1;\n`,
+    });
+
+    const errorSpy = vi.spyOn(consola, "error").mockImplementation(() => {});
+    let builds = 0;
+    const watcher = await watch({
+      cwd: pkgDir,
+      entries: [
+        { type: "transform", input: "src/runtime", outDir: "dist/runtime" },
+      ],
+      hooks: {
+        start: () => {
+          if (builds++ > 0) {
+            throw new Error("start hook failed");
+          }
+        },
+      },
+    });
+
+    try {
+      const distFile = (p: string) => join(pkgDir, "dist", p);
+      for (const name of ["b", "c"]) {
+        await writeFile(
+          join(pkgDir, `src/runtime/${name}.ts`),
+          `export const ${name} = 1;\n`,
+        );
+        await vi.waitFor(
+          () => {
+            expect(existsSync(distFile(`runtime/${name}.mjs`))).toBe(true);
+          },
+          { timeout: 5000 },
+        );
+      }
+      expect(errorSpy).toHaveBeenCalledWith(new Error("start hook failed"));
+    } finally {
+      errorSpy.mockRestore();
+      await watcher.close();
+    }
+  });
+});